@@ -0,0 +1,62 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { ErrorSummary, type ErrorSummaryProps } from '../components/ErrorSummary';
+import { FormFieldMUI } from '../components/FormField';
+import { useForm } from '../hooks/useForm';
+import { validators } from '../validators';
+
+interface Contact {
+  name: string;
+  email: string;
+}
+
+const initialValues: Contact = { name: '', email: '' };
+const fieldValidators = {
+  email: validators.required('Informe o e-mail'),
+  name: validators.required('Informe o nome'),
+};
+
+const ContactForm = ({ focusOnSubmit }: Pick<ErrorSummaryProps, 'focusOnSubmit'>) => {
+  const form = useForm<Contact>({ initialValues, validators: fieldValidators, id: 'contact' });
+  return (
+    <form onSubmit={form.handleSubmit}>
+      <ErrorSummary form={form} focusOnSubmit={focusOnSubmit} />
+      <FormFieldMUI form={form} name="name" label="Nome" />
+      <FormFieldMUI form={form} name="email" label="E-mail" />
+      <button type="submit">Enviar</button>
+    </form>
+  );
+};
+
+const submit = async () => {
+  await act(async () => {
+    fireEvent.click(screen.getByText('Enviar'));
+  });
+};
+
+describe('ErrorSummary', () => {
+  it('lists errors in field order, linking to the fields, after a submit attempt', async () => {
+    render(<ContactForm />);
+    expect(screen.queryByText('Há um problema')).toBeNull();
+
+    await submit();
+    const links = screen.getAllByRole('link');
+    expect(links.map((link) => link.textContent)).toEqual(['Informe o nome', 'Informe o e-mail']);
+    expect(links[1]).toHaveAttribute('href', '#contact-email');
+
+    fireEvent.click(links[1] as HTMLElement);
+    expect(screen.getByLabelText(/E-mail/)).toHaveFocus();
+  });
+
+  it('moves focus to the summary after a failed submit', async () => {
+    render(<ContactForm />);
+    await submit();
+    expect(screen.getByText('Há um problema').closest('[tabindex="-1"]')).toHaveFocus();
+  });
+
+  it('can move focus to the first invalid field instead', async () => {
+    render(<ContactForm focusOnSubmit="field" />);
+    await submit();
+    expect(screen.getByLabelText(/Nome/)).toHaveFocus();
+  });
+});
@@ -0,0 +1,159 @@
+import { act, fireEvent, render, renderHook, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { createActor } from 'xstate';
+import { z } from 'zod';
+import { FieldMessages, FormFieldMUI, formFieldMachine } from '../components/FormField';
+import { useForm } from '../hooks/useForm';
+import { validators } from '../validators';
+
+interface SignUp {
+  email: string;
+  nickname: string;
+}
+
+const initialValues: SignUp = { email: '', nickname: '' };
+const fieldValidators = { email: [validators.required(), validators.email()] };
+const usernameValues = { username: '' };
+
+const SignUpForm = () => {
+  const form = useForm<SignUp>({ initialValues, validators: fieldValidators });
+  return (
+    <form onSubmit={form.handleSubmit}>
+      <FormFieldMUI form={form} name="email" label="Email" />
+      <FormFieldMUI form={form} name="nickname" label="Apelido" />
+      <button type="submit">Enviar</button>
+    </form>
+  );
+};
+
+describe('connected FormField', () => {
+  it('wires value and change, and shows errors only once touched', async () => {
+    render(<SignUpForm />);
+    const email = screen.getByLabelText(/Email/) as HTMLInputElement;
+
+    fireEvent.change(email, { target: { value: 'ana@' } });
+    expect(email.value).toBe('ana@');
+    expect(screen.queryByText('Email inválido')).toBeNull();
+
+    await act(async () => {
+      fireEvent.blur(email);
+    });
+
+    const message = await screen.findByText('Email inválido');
+    expect(message.id).toBe('email-error');
+    expect(email).toHaveAttribute('aria-describedby', 'email-error');
+    expect(email).toHaveAttribute('aria-invalid', 'true');
+  });
+
+  it('shows errors of untouched fields after a submit attempt', async () => {
+    render(<SignUpForm />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Enviar'));
+    });
+
+    expect(await screen.findByText('Campo obrigatório')).toBeInTheDocument();
+  });
+
+  it('marks fields with a required rule as required', () => {
+    render(<SignUpForm />);
+
+    expect(screen.getByLabelText(/Email/)).toHaveAttribute('aria-required', 'true');
+    expect(screen.getByLabelText(/Apelido/)).not.toHaveAttribute('aria-required');
+  });
+});
+
+describe('getFieldProps', () => {
+  it('derives the required state from the schema', () => {
+    const schema = z.object({
+      email: z.email(),
+      nickname: z.string().optional(),
+      address: z.object({ zip: z.string().min(8) }),
+    });
+    const { result } = renderHook(() =>
+      useForm({
+        id: 'signup',
+        initialValues: { email: '', nickname: '', address: { zip: '' } },
+        schema,
+      })
+    );
+
+    expect(result.current.getFieldProps('email').required).toBe(true);
+    expect(result.current.getFieldProps('nickname').required).toBe(false);
+    expect(result.current.getFieldProps('address.zip')).toMatchObject({
+      id: 'signup-address-zip',
+      name: 'address.zip',
+      required: true,
+    });
+  });
+});
+
+describe('FormField driven by formFieldMachine', () => {
+  const UsernameForm = () => {
+    const form = useForm<{ username: string }>({
+      initialValues: usernameValues,
+      validators: {
+        username: async (value) => {
+          await new Promise((resolve) => setTimeout(resolve, 20));
+          return value === 'ana' ? 'Usuário já existe' : undefined;
+        },
+      },
+    });
+    return (
+      <form onSubmit={form.handleSubmit}>
+        <FormFieldMUI
+          form={form}
+          name="username"
+          label="Usuário"
+          machine
+          successText="Disponível"
+        />
+        <button type="submit">Enviar</button>
+      </form>
+    );
+  };
+
+  it('shows a spinner while validating and the error only after blur', async () => {
+    render(<UsernameForm />);
+    const input = screen.getByLabelText(/Usuário/);
+
+    fireEvent.focus(input);
+    fireEvent.change(input, { target: { value: 'ana' } });
+    await act(() => new Promise((resolve) => setTimeout(resolve, 40)));
+    expect(screen.queryByText('Usuário já existe')).toBeNull();
+
+    fireEvent.blur(input);
+    expect(screen.getByLabelText('Validando')).toBeInTheDocument();
+    expect(input).toHaveAttribute('aria-busy', 'true');
+    expect(await screen.findByText('Usuário já existe')).toBeInTheDocument();
+    expect(screen.queryByLabelText('Validando')).toBeNull();
+    expect(input).toHaveAttribute('aria-invalid', 'true');
+  });
+
+  it('renders the success state once valid', async () => {
+    render(<UsernameForm />);
+    const input = screen.getByLabelText(/Usuário/);
+
+    fireEvent.focus(input);
+    fireEvent.change(input, { target: { value: 'bia' } });
+    fireEvent.blur(input);
+
+    expect(await screen.findByLabelText('Válido')).toBeInTheDocument();
+    expect(screen.getByText('Disponível')).toBeInTheDocument();
+  });
+
+  it('reveals the error of an untouched field on submit', async () => {
+    const actor = createActor(formFieldMachine, { input: {} }).start();
+    render(
+      <>
+        <FormFieldMUI id="code" label="Código" machine={actor} error="Código inválido" />
+        <FieldMessages fieldId="code" machine={actor} />
+      </>
+    );
+    expect(screen.queryByText('Código inválido')).toBeNull();
+
+    act(() => actor.send({ type: 'SUBMIT_ATTEMPT' }));
+
+    expect(await screen.findAllByText('Código inválido')).toHaveLength(2);
+  });
+});
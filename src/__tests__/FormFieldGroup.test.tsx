@@ -0,0 +1,98 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { FormFieldGroup, FormFieldMUI, FormFieldRow } from '../components/FormField';
+import { FormProvider } from '../components/FormProvider';
+import { useForm } from '../hooks/useForm';
+import { validators } from '../validators';
+
+interface Address {
+  address: { zip: string; street: string };
+  name: string;
+}
+
+const initialValues: Address = { address: { zip: '', street: '' }, name: '' };
+const fieldValidators = {
+  'address.zip': validators.required(),
+  'address.street': validators.required(),
+  address: (value: Address['address']) =>
+    value.zip === '00000-000' ? 'Endereço não atendido' : undefined,
+};
+
+const AddressForm = () => {
+  const form = useForm<Address>({ initialValues, validators: fieldValidators });
+  return (
+    <FormProvider form={form}>
+      <form onSubmit={form.handleSubmit}>
+        <FormFieldMUI form={form} name="name" label="Nome" />
+        <FormFieldGroup title="Endereço" name="address" collapsible defaultExpanded={false}>
+          <FormFieldRow columns={[4, 8]}>
+            <FormFieldMUI form={form} name="address.zip" label="CEP" />
+            <FormFieldMUI form={form} name="address.street" label="Rua" />
+          </FormFieldRow>
+        </FormFieldGroup>
+        <button type="submit">Enviar</button>
+      </form>
+    </FormProvider>
+  );
+};
+
+describe('FormFieldGroup', () => {
+  it('renders a fieldset with legend and a collapse toggle', () => {
+    render(<AddressForm />);
+
+    const group = screen.getByRole('group', { name: 'Endereço' });
+    expect(group.tagName).toBe('FIELDSET');
+
+    const toggle = screen.getByRole('button', { name: 'Expandir seção' });
+    expect(toggle).toHaveAttribute('aria-expanded', 'false');
+    fireEvent.click(toggle);
+    expect(screen.getByRole('button', { name: 'Recolher seção' })).toHaveAttribute(
+      'aria-expanded',
+      'true'
+    );
+  });
+
+  it('counts child errors and expands after a failed submit', async () => {
+    render(<AddressForm />);
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Enviar'));
+    });
+
+    const group = screen.getByRole('group', { name: /Endereço/ });
+    expect(group).toHaveAttribute('aria-invalid', 'true');
+    expect(group.querySelector('.MuiBadge-badge')).toHaveTextContent('2');
+    expect(screen.getByRole('button', { name: 'Recolher seção' })).toBeInTheDocument();
+  });
+
+  it('shows the error of the group path as the group error', async () => {
+    render(<AddressForm />);
+
+    fireEvent.click(screen.getByRole('button', { name: 'Expandir seção' }));
+    fireEvent.change(screen.getByLabelText(/CEP/), { target: { value: '00000-000' } });
+    fireEvent.change(screen.getByLabelText(/Rua/), { target: { value: 'Rua A' } });
+    await act(async () => {
+      fireEvent.click(screen.getByText('Enviar'));
+    });
+
+    const message = await screen.findByText('Endereço não atendido');
+    expect(message.id).toBe('address-error');
+    expect(screen.getByRole('group', { name: /Endereço/ })).toHaveAttribute(
+      'aria-describedby',
+      'address-error'
+    );
+  });
+});
+
+describe('FormFieldRow', () => {
+  it('shows a row-level error below the fields', () => {
+    render(
+      <FormFieldRow error="A data inicial deve ser anterior à final">
+        <FormFieldMUI label="Início" />
+        <FormFieldMUI label="Fim" />
+      </FormFieldRow>
+    );
+
+    expect(screen.getByRole('alert')).toHaveTextContent('A data inicial deve ser anterior à final');
+  });
+});
@@ -0,0 +1,82 @@
+import { act, fireEvent, render, renderHook, screen } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { FormFieldMUI } from '../components/FormField';
+import { FormProvider, useFormContext } from '../components/FormProvider';
+import { useField } from '../hooks/useField';
+import { useForm } from '../hooks/useForm';
+import { useWatch } from '../hooks/useWatch';
+
+interface Onboarding {
+  name: string;
+  address: { zip: string; city: string };
+}
+
+const initialValues: Onboarding = { name: '', address: { zip: '', city: '' } };
+
+const ZipField = () => {
+  const zip = useField<Onboarding, 'address.zip'>('address.zip');
+  return <FormFieldMUI label="CEP" {...zip.fieldProps} />;
+};
+
+const CityFiller = () => {
+  const city = useField<Onboarding, 'address.city'>('address.city');
+  return (
+    <button type="button" onClick={() => city.setValue('São Paulo')}>
+      Preencher cidade
+    </button>
+  );
+};
+
+const Summary = () => {
+  const [zip, city] = useWatch<Onboarding, ['address.zip', 'address.city']>([
+    'address.zip',
+    'address.city',
+  ]);
+  return <output>{`${zip}|${city}`}</output>;
+};
+
+const Onboarding = () => {
+  const form = useForm({ initialValues });
+  return (
+    <FormProvider form={form}>
+      <section>
+        <ZipField />
+        <CityFiller />
+        <Summary />
+      </section>
+    </FormProvider>
+  );
+};
+
+describe('FormProvider', () => {
+  it('lets nested components read and write fields', () => {
+    render(<Onboarding />);
+
+    fireEvent.change(screen.getByLabelText('CEP'), { target: { value: '01310-100' } });
+    act(() => {
+      fireEvent.click(screen.getByText('Preencher cidade'));
+    });
+
+    expect(screen.getByRole('status')).toHaveTextContent('01310-100|São Paulo');
+    expect(screen.getByLabelText('CEP')).toHaveValue('01310-100');
+  });
+
+  it('throws when useFormContext is used outside a provider', () => {
+    const consoleError = vi.spyOn(console, 'error').mockImplementation(() => undefined);
+    expect(() => renderHook(() => useFormContext())).toThrow(
+      'useFormContext must be used within a FormProvider'
+    );
+    consoleError.mockRestore();
+  });
+
+  it('accepts an explicit form instead of the context', () => {
+    const { result } = renderHook(() => {
+      const form = useForm({ initialValues });
+      return { form, city: useWatch('address.city', form) };
+    });
+
+    act(() => result.current.form.setFieldValue('address.city', 'Lisboa'));
+
+    expect(result.current.city).toBe('Lisboa');
+  });
+});
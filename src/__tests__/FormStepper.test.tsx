@@ -0,0 +1,134 @@
+import { act, fireEvent, render, renderHook, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { FormStepper } from '../components/FormStepper';
+import { useForm } from '../hooks/useForm';
+import type { FormStep } from '../machines/steps';
+import { validators } from '../validators';
+
+interface Onboarding {
+  account: { email: string };
+  company: { cnpj: string };
+  kind: 'person' | 'company';
+  terms: string;
+}
+
+const initialValues: Onboarding = {
+  account: { email: '' },
+  company: { cnpj: '' },
+  kind: 'person',
+  terms: '',
+};
+const fieldValidators = {
+  'account.email': validators.required(),
+  'company.cnpj': validators.required(),
+  terms: validators.required(),
+};
+const steps: FormStep<Onboarding>[] = [
+  { id: 'account', label: 'Conta', fields: ['account', 'kind'] },
+  {
+    id: 'company',
+    label: 'Empresa',
+    fields: ['company'],
+    when: (values) => values.kind === 'company',
+  },
+  { id: 'terms', label: 'Termos', fields: ['terms'] },
+];
+
+const useOnboarding = () => useForm({ initialValues, validators: fieldValidators, steps });
+
+describe('multi-step forms', () => {
+  it('validates only the current step on NEXT', async () => {
+    const { result } = renderHook(useOnboarding);
+
+    let moved = false;
+    await act(async () => {
+      moved = await result.current.nextStep();
+    });
+    expect(moved).toBe(false);
+    expect(result.current.currentStep).toBe(0);
+    expect(result.current.errors).toEqual({ 'account.email': 'Campo obrigatório' });
+    expect(result.current.touched['account.email']).toBe(true);
+  });
+
+  it('skips steps that do not apply, both ways', async () => {
+    const { result } = renderHook(useOnboarding);
+    act(() => result.current.setFieldValue('account.email', 'ana@x.com'));
+
+    await act(async () => {
+      await result.current.nextStep();
+    });
+    expect(result.current.currentStep).toBe(2);
+
+    act(() => result.current.previousStep());
+    expect(result.current.currentStep).toBe(0);
+
+    act(() => result.current.setFieldValue('kind', 'company'));
+    await act(async () => {
+      await result.current.nextStep();
+    });
+    expect(result.current.currentStep).toBe(1);
+  });
+
+  it('only jumps ahead once the steps in between are completed', async () => {
+    const { result } = renderHook(useOnboarding);
+    act(() => result.current.setFieldValue('kind', 'company'));
+    act(() => result.current.setFieldValue('account.email', 'ana@x.com'));
+
+    await act(async () => {
+      expect(await result.current.goToStep('terms')).toBe(false);
+    });
+    await act(async () => {
+      expect(await result.current.goToStep('company')).toBe(true);
+    });
+    await act(async () => {
+      expect(await result.current.goToStep('account')).toBe(true);
+    });
+    expect(result.current.currentStep).toBe(0);
+  });
+
+  it('ignores errors of skipped steps on submit and shows the first step with errors', async () => {
+    const { result } = renderHook(useOnboarding);
+    act(() => result.current.setFieldValue('account.email', 'ana@x.com'));
+    await act(async () => {
+      await result.current.nextStep();
+    });
+
+    await act(async () => {
+      const submit = await result.current.handleSubmit();
+      expect(submit.ok).toBe(false);
+      expect(submit.ok ? {} : submit.errors).toEqual({ terms: 'Campo obrigatório' });
+    });
+
+    act(() => result.current.previousStep());
+    act(() => result.current.setFieldValue('account.email', ''));
+    await act(async () => {
+      await result.current.handleSubmit();
+    });
+    expect(result.current.currentStep).toBe(0);
+  });
+});
+
+describe('FormStepper', () => {
+  const Wizard = () => {
+    const form = useOnboarding();
+    return (
+      <>
+        <FormStepper form={form} nonLinear />
+        <button type="button" onClick={form.nextStep}>
+          Continuar
+        </button>
+      </>
+    );
+  };
+
+  it('shows the applicable steps and marks the ones with errors', async () => {
+    render(<Wizard />);
+    expect(screen.queryByText('Empresa')).toBeNull();
+    expect(screen.getByText('Conta')).toBeInTheDocument();
+
+    await act(async () => {
+      fireEvent.click(screen.getByText('Continuar'));
+    });
+    expect(await screen.findByText('1 erro')).toBeInTheDocument();
+  });
+});
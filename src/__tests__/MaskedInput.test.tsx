@@ -0,0 +1,110 @@
+import { fireEvent, render, screen } from '@testing-library/react';
+import { useState } from 'react';
+import { describe, expect, it, vi } from 'vitest';
+import { MaskedInput, type MaskedValue, maskValue } from '../components/MaskedInput';
+
+const CPF_MASK = '999.999.999-99';
+
+const ControlledCPF = ({ onValueChange }: { onValueChange?: (value: MaskedValue) => void }) => {
+  const [value, setValue] = useState('');
+  return (
+    <MaskedInput
+      label="CPF"
+      mask={CPF_MASK}
+      value={value}
+      onChange={(event) => setValue(event.target.value)}
+      onValueChange={onValueChange}
+    />
+  );
+};
+
+const getInput = () => screen.getByLabelText('CPF') as HTMLInputElement;
+
+/**
+ * Simulate the browser editing the input: new value, caret position, then the input event
+ */
+const editInput = (input: HTMLInputElement, value: string, caret: number, inputType?: string) => {
+  Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'value')?.set?.call(input, value);
+  input.setSelectionRange(caret, caret);
+  fireEvent.input(input, { inputType });
+};
+
+describe('maskValue', () => {
+  it('returns the masked and raw values', () => {
+    expect(maskValue('52998224725', CPF_MASK)).toEqual({
+      masked: '529.982.247-25',
+      raw: '52998224725',
+    });
+  });
+
+  it('resolves dynamic masks from the raw value', () => {
+    const mask = (raw: string) => (raw.length > 11 ? '99.999.999/9999-99' : '999.999.999-999');
+    expect(maskValue('11222333000181', mask).masked).toBe('11.222.333/0001-81');
+    expect(maskValue('5299822', mask).masked).toBe('529.982.2');
+  });
+
+  it('tells the digits of the mask literals from the typed ones', () => {
+    const mask = '+55 (99) 99999-9999';
+    expect(maskValue('11987', mask)).toEqual({ masked: '+55 (11) 987', raw: '11987' });
+    expect(maskValue('+55 (11) 987', mask)).toEqual({ masked: '+55 (11) 987', raw: '11987' });
+    expect(maskValue('5511987', mask).masked).toBe('+55 (55) 11987');
+  });
+});
+
+describe('MaskedInput', () => {
+  it('masks pasted values and exposes the raw value', () => {
+    const onValueChange = vi.fn();
+    render(<ControlledCPF onValueChange={onValueChange} />);
+
+    fireEvent.change(getInput(), { target: { value: '529.982.247-25 ' } });
+
+    expect(getInput().value).toBe('529.982.247-25');
+    expect(onValueChange).toHaveBeenLastCalledWith({
+      masked: '529.982.247-25',
+      raw: '52998224725',
+    });
+  });
+
+  it('keeps the caret after the edited character when inserting mid-value', () => {
+    render(<ControlledCPF />);
+    const input = getInput();
+    fireEvent.change(input, { target: { value: '529.982' } });
+    input.focus();
+
+    // Type "1" between "5" and "2"
+    editInput(input, '5129.982', 2, 'insertText');
+
+    expect(input.value).toBe('512.998.2');
+    expect(input.selectionStart).toBe(2);
+  });
+
+  it('removes the digit before a literal on backspace', () => {
+    render(<ControlledCPF />);
+    const input = getInput();
+    fireEvent.change(input, { target: { value: '529.98' } });
+    input.focus();
+
+    // Backspace with the caret right after the "."
+    editInput(input, '52998', 3, 'deleteContentBackward');
+
+    expect(input.value).toBe('529.8');
+    expect(input.selectionStart).toBe(2);
+  });
+
+  it('keeps the caret after typed digits when the mask has literal digits', () => {
+    render(<MaskedInput label="Celular" mask="+55 (99) 99999-9999" />);
+    const input = screen.getByLabelText('Celular') as HTMLInputElement;
+    fireEvent.change(input, { target: { value: '11' } });
+    input.focus();
+
+    // Type "9" at the end
+    editInput(input, '+55 (119', 8, 'insertText');
+    expect(input.value).toBe('+55 (11) 9');
+    expect(input.selectionStart).toBe(10);
+
+    // Backspace with the caret right after the ") "
+    editInput(input, '+55 (11)9', 8, 'deleteContentBackward');
+    expect(input.value).toBe('+55 (19');
+    expect(input.selectionStart).toBe(6);
+  });
+});
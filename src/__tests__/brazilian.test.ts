@@ -0,0 +1,48 @@
+import { describe, expect, it } from 'vitest';
+import { validators } from '../validators';
+import {
+  createCNPJSchema,
+  createCPFSchema,
+  isValidCEP,
+  isValidCNPJ,
+  isValidCPF,
+  isValidPIS,
+  isValidRENAVAM,
+} from '../validators/brazilian';
+
+describe('Brazilian document validators', () => {
+  it('validates CPF check digits', () => {
+    expect(isValidCPF('529.982.247-25')).toBe(true);
+    expect(isValidCPF('52998224725')).toBe(true);
+    expect(isValidCPF('529.982.247-24')).toBe(false);
+    expect(isValidCPF('111.111.111-11')).toBe(false);
+    expect(isValidCPF('5299822472')).toBe(false);
+  });
+
+  it('validates numeric and alphanumeric CNPJ', () => {
+    expect(isValidCNPJ('11.222.333/0001-81')).toBe(true);
+    expect(isValidCNPJ('11.222.333/0001-80')).toBe(false);
+    expect(isValidCNPJ('12.ABC.345/01DE-35')).toBe(true);
+    expect(isValidCNPJ('12.abc.345/01de-35')).toBe(true);
+    expect(isValidCNPJ('12.ABC.345/01DE-36')).toBe(false);
+    expect(isValidCNPJ('00.000.000/0000-00')).toBe(false);
+  });
+
+  it('validates CEP, PIS and RENAVAM', () => {
+    expect(isValidCEP('01310-100')).toBe(true);
+    expect(isValidCEP('00000-000')).toBe(false);
+    expect(isValidPIS('120.12345.67-2')).toBe(true);
+    expect(isValidPIS('120.12345.67-3')).toBe(false);
+    expect(isValidRENAVAM('00639884962')).toBe(true);
+    expect(isValidRENAVAM('639884962')).toBe(true);
+    expect(isValidRENAVAM('00639884961')).toBe(false);
+  });
+
+  it('exposes validators factories and zod schemas', () => {
+    expect(validators.cpf()('111.111.111-11')).toEqual({ code: 'cpf' });
+    expect(validators.cnpj()('11.222.333/0001-81')).toBeUndefined();
+    expect(createCPFSchema().safeParse('529.982.247-25').success).toBe(true);
+    expect(createCNPJSchema({ required: false }).safeParse(undefined).success).toBe(true);
+    expect(createCNPJSchema().safeParse('').error?.issues[0]?.message).toBe('CNPJ é obrigatório');
+  });
+});
@@ -0,0 +1,97 @@
+import { act, render, renderHook, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { FormFieldMUI } from '../components/FormField';
+import { useForm } from '../hooks/useForm';
+import type { ComputedFields } from '../machines/computed';
+import { createFormMachine } from '../machines/formMachine';
+import { calculateAge } from '../validators/generic';
+
+interface Order {
+  qty: number;
+  price: number;
+  subtotal: number;
+  total: number;
+  birthDate: string;
+  age?: number;
+  address: { street: string; city: string; full: string };
+}
+
+const initialValues: Order = {
+  qty: 2,
+  price: 10,
+  subtotal: 0,
+  total: 0,
+  birthDate: '',
+  address: { street: '', city: '', full: '' },
+};
+const computed: ComputedFields<Order> = {
+  total: { deps: ['subtotal'], compute: (values) => values.subtotal * 1.1 },
+  subtotal: { deps: ['qty', 'price'], compute: (values) => values.qty * values.price },
+  age: { deps: ['birthDate'], compute: (values) => calculateAge(values.birthDate) },
+  'address.full': {
+    deps: ['address.street', 'address.city'],
+    compute: ({ address }) => [address.street, address.city].filter(Boolean).join(', '),
+    readOnly: false,
+  },
+};
+
+const useOrder = () => useForm({ initialValues, computed });
+
+describe('computed fields', () => {
+  it('computes initial values, including fields depending on other computed fields', () => {
+    const { result } = renderHook(useOrder);
+    expect(result.current.values.subtotal).toBe(20);
+    expect(result.current.values.total).toBeCloseTo(22);
+    expect(result.current.isDirty).toBe(false);
+  });
+
+  it('recalculates when a dependency changes', () => {
+    const { result } = renderHook(useOrder);
+    act(() => result.current.setFieldValue('qty', 3));
+    expect(result.current.values.subtotal).toBe(30);
+    expect(result.current.values.total).toBeCloseTo(33);
+
+    const year = new Date().getFullYear();
+    act(() => result.current.setFieldValue('birthDate', `${year - 31}-01-01T12:00:00`));
+    expect(result.current.values.age).toBe(31);
+
+    act(() => result.current.setFieldValue('address.city', 'Recife'));
+    expect(result.current.values.address.full).toBe('Recife');
+  });
+
+  it('ignores changes to read-only computed fields', () => {
+    const { result } = renderHook(useOrder);
+    act(() => result.current.setFieldValue('total', 1));
+    expect(result.current.values.total).toBeCloseTo(22);
+    expect(result.current.getFieldProps('total').readOnly).toBe(true);
+  });
+
+  it('keeps an overridden value until the field is reset', () => {
+    const { result } = renderHook(useOrder);
+    act(() => result.current.setFieldValue('address.full', 'Caixa Postal 12'));
+    act(() => result.current.setFieldValue('address.city', 'Recife'));
+    expect(result.current.values.address.full).toBe('Caixa Postal 12');
+
+    act(() => result.current.resetField('address.full'));
+    expect(result.current.values.address.full).toBe('Recife');
+  });
+
+  it('rejects computed fields depending on each other in a cycle', () => {
+    const cycle: ComputedFields<Order> = {
+      subtotal: { deps: ['total'], compute: (values) => values.total },
+      total: { deps: ['subtotal'], compute: (values) => values.subtotal },
+    };
+    expect(() =>
+      createFormMachine(initialValues, undefined, true, true, { computed: cycle })
+    ).toThrow('subtotal → total → subtotal');
+  });
+
+  it('renders read-only computed fields as read-only inputs', () => {
+    const OrderForm = () => {
+      const form = useOrder();
+      return <FormFieldMUI form={form} name="total" label="Total" />;
+    };
+    render(<OrderForm />);
+    expect(screen.getByLabelText('Total')).toHaveAttribute('readonly');
+  });
+});
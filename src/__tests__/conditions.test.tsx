@@ -0,0 +1,134 @@
+import { act, fireEvent, render, renderHook, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { z } from 'zod';
+import { FormFieldMUI } from '../components/FormField';
+import { useForm } from '../hooks/useForm';
+import type { FieldConditions } from '../machines/conditions';
+import { validators } from '../validators';
+
+interface Customer {
+  personType: 'PF' | 'PJ';
+  cpf: string;
+  cnpj: string;
+  company: { name: string };
+}
+
+const initialValues: Customer = {
+  personType: 'PF',
+  cpf: '',
+  cnpj: '',
+  company: { name: '' },
+};
+const isCompany = (values: Customer) => values.personType === 'PJ';
+const conditions: FieldConditions<Customer> = {
+  cpf: {
+    visibleWhen: (values) => !isCompany(values),
+    requiredWhen: (values) => !isCompany(values),
+  },
+  cnpj: { visibleWhen: isCompany, requiredWhen: isCompany },
+  company: { visibleWhen: isCompany },
+  'company.name': { disabledWhen: (values) => !values.cnpj },
+};
+const fieldValidators = { 'company.name': validators.required() };
+
+describe('conditional fields', () => {
+  it('computes visibility, enabled and required state from the values', () => {
+    const { result } = renderHook(() =>
+      useForm({ initialValues, conditions, validators: fieldValidators })
+    );
+    expect(result.current.getFieldProps('cnpj')).toMatchObject({ hidden: true, required: false });
+    expect(result.current.getFieldProps('company.name').hidden).toBe(true);
+
+    act(() => result.current.setFieldValue('personType', 'PJ'));
+    expect(result.current.getFieldProps('cnpj')).toMatchObject({ hidden: false, required: true });
+    expect(result.current.getFieldProps('cpf').hidden).toBe(true);
+    expect(result.current.getFieldProps('company.name').disabled).toBe(true);
+
+    act(() => result.current.setFieldValue('cnpj', '11.222.333/0001-81'));
+    expect(result.current.getFieldProps('company.name').disabled).toBe(false);
+  });
+
+  it('excludes hidden fields from validation and drops their errors', async () => {
+    const { result } = renderHook(() =>
+      useForm({ initialValues, conditions, validators: fieldValidators })
+    );
+
+    await act(async () => {
+      const submit = await result.current.handleSubmit();
+      expect(submit.ok ? {} : submit.errors).toEqual({ cpf: 'Campo obrigatório' });
+    });
+
+    act(() => result.current.setFieldValue('personType', 'PJ'));
+    expect(result.current.errors).toEqual({});
+
+    await act(async () => {
+      const submit = await result.current.handleSubmit();
+      expect(submit.ok ? {} : submit.errors).toEqual({
+        cnpj: 'Campo obrigatório',
+        'company.name': 'Campo obrigatório',
+      });
+    });
+  });
+
+  it('optionally leaves hidden fields out of the submitted values', async () => {
+    const { result } = renderHook(() =>
+      useForm({
+        initialValues: { ...initialValues, cpf: '123', cnpj: 'stale' },
+        conditions,
+        schema: z.object({
+          personType: z.enum(['PF', 'PJ']),
+          cpf: z.string().transform((cpf) => cpf.padStart(11, '0')),
+          cnpj: z.string().min(20).optional(),
+          company: z.object({ name: z.string().min(1) }).optional(),
+        }),
+        omitHiddenValues: true,
+      })
+    );
+
+    await act(async () => {
+      const submit = await result.current.handleSubmit();
+      expect(submit).toEqual({ ok: true, values: { personType: 'PF', cpf: '00000000123' } });
+    });
+  });
+
+  it('does not submit values the schema rejects on account of hidden fields', async () => {
+    const { result } = renderHook(() =>
+      useForm({
+        initialValues: { ...initialValues, cpf: '123', cnpj: 'stale' },
+        conditions,
+        schema: z.object({
+          personType: z.enum(['PF', 'PJ']),
+          cpf: z.string().min(1),
+          cnpj: z.string().min(20),
+          company: z.object({ name: z.string().min(1) }),
+        }),
+      })
+    );
+
+    await act(async () => {
+      const submit = await result.current.handleSubmit();
+      expect(submit).toEqual({ ok: false, errors: {} });
+    });
+    expect(result.current.formError).toBe('Revise os dados do formulário');
+  });
+
+  it('renders connected fields according to their conditions', () => {
+    const CustomerForm = () => {
+      const form = useForm<Customer>({ initialValues, conditions });
+      return (
+        <>
+          <FormFieldMUI form={form} name="personType" label="Tipo" />
+          <FormFieldMUI form={form} name="cpf" label="CPF" />
+          <FormFieldMUI form={form} name="cnpj" label="CNPJ" />
+        </>
+      );
+    };
+    render(<CustomerForm />);
+    expect(screen.getByLabelText(/CPF/)).toHaveAttribute('aria-required', 'true');
+    expect(screen.queryByLabelText(/CNPJ/)).toBeNull();
+
+    fireEvent.change(screen.getByLabelText(/Tipo/), { target: { value: 'PJ' } });
+    expect(screen.queryByLabelText(/CPF/)).toBeNull();
+    expect(screen.getByLabelText(/CNPJ/)).toHaveAttribute('aria-required', 'true');
+  });
+});
@@ -0,0 +1,144 @@
+import { act, fireEvent, render, renderHook, screen, waitFor } from '@testing-library/react';
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { FormDraftPrompt } from '../components/FormDraftPrompt';
+import { useForm } from '../hooks/useForm';
+import { type UseFormDraftOptions, useFormDraft } from '../hooks/useFormDraft';
+import type { DraftStorage } from '../persistence';
+
+interface Signup {
+  name: string;
+  cpf: string;
+  address: { city: string };
+}
+
+const initialValues: Signup = { name: '', cpf: '', address: { city: '' } };
+const draftOptions: UseFormDraftOptions<Signup> = {
+  key: 'signup',
+  version: 2,
+  exclude: ['cpf'],
+  throttle: 10,
+};
+
+const storeDraft = (version: number, values: unknown) =>
+  localStorage.setItem('signup', JSON.stringify({ version, savedAt: Date.now(), values }));
+
+const useSignup = (options: UseFormDraftOptions<Signup> = draftOptions) => {
+  const form = useForm({ initialValues, onSubmit: () => undefined });
+  const draft = useFormDraft(options, form);
+  return { form, draft };
+};
+
+describe('useFormDraft', () => {
+  afterEach(() => localStorage.clear());
+
+  it('autosaves the values without the excluded fields', async () => {
+    const { result } = renderHook(() => useSignup());
+    await waitFor(() => expect(result.current.draft.status).toBe('ready'));
+
+    act(() => result.current.form.setFieldValue('name', 'Ana'));
+    act(() => result.current.form.setFieldValue('cpf', '52998224725'));
+    await waitFor(() => expect(localStorage.getItem('signup')).not.toBeNull());
+
+    const saved = JSON.parse(localStorage.getItem('signup') ?? '{}');
+    expect(saved.version).toBe(2);
+    expect(saved.values).toEqual({ name: 'Ana', address: { city: '' } });
+  });
+
+  it('asks before restoring a saved draft', async () => {
+    storeDraft(2, { name: 'Ana', address: { city: 'Recife' } });
+    const Signup = () => {
+      const { form, draft } = useSignup();
+      return (
+        <>
+          <FormDraftPrompt draft={draft} />
+          <span>{form.values.address.city || 'vazio'}</span>
+        </>
+      );
+    };
+    render(<Signup />);
+
+    expect(await screen.findByText(/Deseja restaurá-lo\?/)).toBeInTheDocument();
+    expect(screen.getByText('vazio')).toBeInTheDocument();
+
+    fireEvent.click(screen.getByText('Restaurar'));
+    expect(screen.getByText('Recife')).toBeInTheDocument();
+    expect(screen.queryByText(/Deseja restaurá-lo\?/)).toBeNull();
+  });
+
+  it('discards drafts of another version unless they can be migrated', async () => {
+    storeDraft(1, { fullName: 'Ana' });
+    const { result } = renderHook(() => useSignup());
+    await waitFor(() => expect(result.current.draft.status).toBe('ready'));
+    expect(localStorage.getItem('signup')).toBeNull();
+
+    storeDraft(1, { fullName: 'Ana' });
+    const migrated = renderHook(() =>
+      useSignup({
+        ...draftOptions,
+        autoRestore: true,
+        migrate: (values) => ({
+          ...initialValues,
+          name: (values as { fullName: string }).fullName,
+        }),
+      })
+    );
+    await waitFor(() => expect(migrated.result.current.form.values.name).toBe('Ana'));
+  });
+
+  it('works with custom async storage and clears the draft after submit', async () => {
+    const items = new Map<string, string>();
+    const storage: DraftStorage = {
+      getItem: async (key) => items.get(key) ?? null,
+      setItem: async (key, value) => {
+        items.set(key, value);
+      },
+      removeItem: async (key) => {
+        items.delete(key);
+      },
+    };
+    const { result } = renderHook(() => useSignup({ ...draftOptions, storage }));
+    await waitFor(() => expect(result.current.draft.status).toBe('ready'));
+
+    act(() => result.current.form.setFieldValue('name', 'Ana'));
+    await waitFor(() => expect(items.has('signup')).toBe(true));
+
+    await act(async () => {
+      await result.current.form.handleSubmit();
+    });
+    await waitFor(() => expect(items.has('signup')).toBe(false));
+  });
+
+  it('reports storage failures to onError and keeps the form working', async () => {
+    const failure = new Error('QuotaExceededError');
+    const storage: DraftStorage = {
+      getItem: () => null,
+      setItem: () => {
+        throw failure;
+      },
+      removeItem: () => undefined,
+    };
+    const onError = vi.fn();
+    const { result } = renderHook(() => useSignup({ ...draftOptions, storage, onError }));
+    await waitFor(() => expect(result.current.draft.status).toBe('ready'));
+
+    act(() => result.current.form.setFieldValue('name', 'Ana'));
+    await waitFor(() => expect(onError).toHaveBeenCalledWith(failure));
+    expect(result.current.form.values.name).toBe('Ana');
+  });
+
+  it('starts saving when reading the storage throws', async () => {
+    const failure = new Error('SecurityError');
+    const storage: DraftStorage = {
+      getItem: () => {
+        throw failure;
+      },
+      setItem: () => undefined,
+      removeItem: () => undefined,
+    };
+    const onError = vi.fn();
+    const { result } = renderHook(() => useSignup({ ...draftOptions, storage, onError }));
+
+    await waitFor(() => expect(result.current.draft.status).toBe('ready'));
+    expect(onError).toHaveBeenCalledWith(failure);
+  });
+});
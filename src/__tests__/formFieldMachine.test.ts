@@ -0,0 +1,109 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { createActor, fromPromise } from 'xstate';
+import {
+  type FormFieldInput,
+  type FormFieldMachineActor,
+  formFieldMachine,
+  getVisibleError,
+  isUnverified,
+} from '../components/FormField';
+
+const startField = (input: FormFieldInput = {}) => createActor(formFieldMachine, { input }).start();
+
+const typeAndBlur = (actor: FormFieldMachineActor, value: string) => {
+  actor.send({ type: 'FOCUS' });
+  actor.send({ type: 'CHANGE', value });
+  actor.send({ type: 'BLUR' });
+};
+
+describe('formFieldMachine async validation', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('validates on blur with the validator from input', async () => {
+    const actor = startField({
+      validate: async (value) => (value === 'ana@x.com' ? 'Email já cadastrado' : undefined),
+    });
+
+    typeAndBlur(actor, 'ana@x.com');
+    expect(actor.getSnapshot().matches('validating')).toBe(true);
+    expect(actor.getSnapshot().context.validating).toBe(true);
+
+    await vi.runAllTimersAsync();
+    expect(getVisibleError(actor.getSnapshot())).toBe('Email já cadastrado');
+    expect(actor.getSnapshot().context.validating).toBe(false);
+  });
+
+  it('debounces VALIDATE and aborts superseded checks', async () => {
+    const signals: AbortSignal[] = [];
+    const validate = vi.fn(
+      (_value: string, _values: unknown, { signal }: { signal?: AbortSignal }) => {
+        signals.push(signal as AbortSignal);
+        return new Promise<undefined>((resolve) => setTimeout(() => resolve(undefined), 100));
+      }
+    );
+    const actor = startField({ validate, debounce: 300 });
+    typeAndBlur(actor, 'bia');
+
+    await vi.advanceTimersByTimeAsync(200);
+    actor.send({ type: 'VALIDATE' });
+    await vi.advanceTimersByTimeAsync(200);
+    expect(validate).not.toHaveBeenCalled();
+
+    await vi.advanceTimersByTimeAsync(150);
+    expect(validate).toHaveBeenCalledTimes(1);
+
+    actor.send({ type: 'VALIDATE' });
+    expect(signals[0]?.aborted).toBe(true);
+
+    await vi.runAllTimersAsync();
+    expect(validate).toHaveBeenCalledTimes(2);
+    expect(actor.getSnapshot().matches('valid')).toBe(true);
+  });
+
+  it('moves to unverified when the validator times out', async () => {
+    const actor = startField({
+      validate: () => new Promise(() => {}),
+      timeout: 5000,
+      unverifiedMessage: 'Não conseguimos verificar agora',
+    });
+    typeAndBlur(actor, 'ana@x.com');
+
+    await vi.advanceTimersByTimeAsync(5000);
+    expect(isUnverified(actor.getSnapshot())).toBe(true);
+    expect(actor.getSnapshot().context.unverifiedMessage).toBe('Não conseguimos verificar agora');
+  });
+
+  it('invokes a validator supplied through provide', async () => {
+    const machine = formFieldMachine.provide({
+      actors: {
+        validateField: fromPromise(async ({ input }) =>
+          input.value.length < 3 ? 'Muito curto' : undefined
+        ),
+      },
+    });
+    const actor = createActor(machine, { input: { autoValidate: true } }).start();
+
+    actor.send({ type: 'SUBMIT_ATTEMPT' });
+    await vi.runAllTimersAsync();
+
+    expect(getVisibleError(actor.getSnapshot())).toBe('Muito curto');
+  });
+
+  it('waits for SET_ERROR / CLEAR_ERROR without a validator', async () => {
+    const actor = startField();
+    typeAndBlur(actor, 'ana');
+    actor.send({ type: 'VALIDATE' });
+
+    await vi.runAllTimersAsync();
+    expect(actor.getSnapshot().matches('validating')).toBe(true);
+
+    actor.send({ type: 'CLEAR_ERROR' });
+    expect(actor.getSnapshot().matches('valid')).toBe(true);
+  });
+});
@@ -0,0 +1,299 @@
+import { describe, expect, it, vi } from 'vitest';
+import { createActor } from 'xstate';
+import { createFormMachine } from '../machines/formMachine';
+import type { Path, PathValue } from '../types/path';
+import { collectLeafPaths, getIn, omitPath, setIn } from '../utils/path';
+
+interface Order {
+  name: string;
+  address: { street: string; zip: string };
+  items: { sku: string; qty: number }[];
+}
+
+const initialValues: Order = {
+  name: '',
+  address: { street: '', zip: '' },
+  items: [{ sku: 'A', qty: 1 }],
+};
+
+describe('path utilities', () => {
+  it('reads and writes nested values immutably', () => {
+    const next = setIn(initialValues, 'address.zip', '01310-100');
+    expect(getIn(next, 'address.zip')).toBe('01310-100');
+    expect(initialValues.address.zip).toBe('');
+    expect(next.items).toBe(initialValues.items);
+  });
+
+  it('creates missing containers', () => {
+    expect(setIn({}, 'items.0.qty', 2)).toEqual({ items: [{ qty: 2 }] });
+  });
+
+  it('omits a path and everything below it', () => {
+    expect(omitPath({ address: 'x', 'address.zip': 'y', name: 'z' }, 'address')).toEqual({
+      name: 'z',
+    });
+  });
+
+  it('collects leaf paths', () => {
+    expect(collectLeafPaths(initialValues)).toEqual([
+      'name',
+      'address.street',
+      'address.zip',
+      'items.0.sku',
+      'items.0.qty',
+    ]);
+  });
+
+  it('types dotted paths', () => {
+    const zip: Path<Order> = 'address.zip';
+    const qty: PathValue<Order, 'items.3.qty'> = 3;
+    expect([zip, qty]).toEqual(['address.zip', 3]);
+  });
+});
+
+describe('createFormMachine', () => {
+  it('updates, validates and resets nested fields', async () => {
+    const actor = createActor(
+      createFormMachine(initialValues, (values) =>
+        values.address.zip.length === 9 ? {} : { 'address.zip': 'CEP inválido' }
+      )
+    ).start();
+
+    actor.send({ type: 'CHANGE_FIELD', field: 'address.zip', value: '0131' });
+    actor.send({ type: 'BLUR_FIELD', field: 'address.zip' });
+    await new Promise((resolve) => setTimeout(resolve, 0));
+
+    expect(actor.getSnapshot().context.values.address.zip).toBe('0131');
+    expect(actor.getSnapshot().context.touched['address.zip']).toBe(true);
+    expect(actor.getSnapshot().context.errors['address.zip']).toBe('CEP inválido');
+
+    actor.send({ type: 'RESET_FIELD', field: 'address' });
+    expect(actor.getSnapshot().context.values.address).toEqual(initialValues.address);
+    expect(actor.getSnapshot().context.errors).toEqual({});
+    expect(actor.getSnapshot().context.touched).toEqual({});
+  });
+
+  it('marks every nested leaf as touched on submit', () => {
+    const actor = createActor(createFormMachine(initialValues)).start();
+    actor.send({ type: 'SUBMIT' });
+    expect(Object.keys(actor.getSnapshot().context.touched)).toEqual(
+      collectLeafPaths(initialValues)
+    );
+  });
+});
+
+describe('async field validation', () => {
+  const tick = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  it('accepts input while the form is validating', async () => {
+    const actor = createActor(
+      createFormMachine({ email: '' }, async () => {
+        await tick(20);
+        return {};
+      })
+    ).start();
+
+    actor.send({ type: 'VALIDATE_FORM' });
+    expect(actor.getSnapshot().value).toBe('validatingForm');
+    actor.send({ type: 'CHANGE_FIELD', field: 'email', value: 'a@b.co' });
+    expect(actor.getSnapshot().context.values.email).toBe('a@b.co');
+  });
+
+  it('resets and restores values while the form is validating', async () => {
+    const actor = createActor(
+      createFormMachine({ email: 'taken@b.co' }, async ({ email }) => {
+        await tick(20);
+        return email ? { email: 'Email em uso' } : {};
+      })
+    ).start();
+
+    actor.send({ type: 'CHANGE_FIELD', field: 'email', value: 'other@b.co' });
+    actor.send({ type: 'SUBMIT' });
+    expect(actor.getSnapshot().value).toBe('submitting');
+    actor.send({ type: 'RESET' });
+    expect(actor.getSnapshot().value).toBe('idle');
+    expect(actor.getSnapshot().context.values.email).toBe('taken@b.co');
+
+    actor.send({ type: 'VALIDATE_FORM' });
+    actor.send({ type: 'RESTORE_VALUES', values: { email: '' } });
+    expect(actor.getSnapshot().value).toBe('idle');
+    await tick(50);
+
+    // The results for the replaced values were dropped
+    const { context } = actor.getSnapshot();
+    expect(context.values.email).toBe('');
+    expect(context.errors).toEqual({});
+    expect(context.submitCount).toBe(0);
+    expect(context.isSubmitting).toBe(false);
+  });
+
+  it('keeps only the latest result per field', async () => {
+    const delays: Record<string, number> = { slow: 30, fast: 0 };
+    const actor = createActor(
+      createFormMachine({ username: '' }, async ({ username }) => {
+        await tick(delays[username] ?? 0);
+        return { username: `taken: ${username}` };
+      })
+    ).start();
+
+    actor.send({ type: 'CHANGE_FIELD', field: 'username', value: 'slow' });
+    actor.send({ type: 'VALIDATE_FIELD', field: 'username' });
+    actor.send({ type: 'CHANGE_FIELD', field: 'username', value: 'fast' });
+    actor.send({ type: 'VALIDATE_FIELD', field: 'username' });
+    await tick(50);
+
+    expect(actor.getSnapshot().context.errors.username).toBe('taken: fast');
+    expect(actor.getSnapshot().context.validating).toEqual({});
+  });
+
+  it('debounces validation while typing', async () => {
+    let calls = 0;
+    const actor = createActor(
+      createFormMachine(
+        { username: '' },
+        () => {
+          calls += 1;
+          return {};
+        },
+        true,
+        true,
+        { debounce: 20 }
+      )
+    ).start();
+
+    actor.send({ type: 'BLUR_FIELD', field: 'username' });
+    await tick();
+    calls = 0;
+    for (const value of ['a', 'ab', 'abc']) {
+      actor.send({ type: 'CHANGE_FIELD', field: 'username', value });
+    }
+    await tick(40);
+
+    expect(calls).toBe(1);
+    expect(actor.getSnapshot().context.values.username).toBe('abc');
+  });
+});
+
+describe('field validator registry', () => {
+  const tick = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms));
+
+  it('runs only the field rules and those of touched dependents', async () => {
+    const emailRule = vi.fn((value: string) =>
+      value.includes('@') ? undefined : 'Email inválido'
+    );
+    const actor = createActor(
+      createFormMachine({ email: '', password: '', confirmPassword: '' }, undefined, true, true, {
+        validators: {
+          email: emailRule,
+          password: (value) => (value.length < 8 ? 'Mínimo 8 caracteres' : undefined),
+          confirmPassword: {
+            rules: (value, values) =>
+              value !== values.password ? 'Senhas não conferem' : undefined,
+            deps: ['password'],
+          },
+        },
+      })
+    ).start();
+
+    actor.send({ type: 'CHANGE_FIELD', field: 'confirmPassword', value: 'secret123' });
+    actor.send({ type: 'BLUR_FIELD', field: 'confirmPassword' });
+    actor.send({ type: 'CHANGE_FIELD', field: 'password', value: 'secret12' });
+    actor.send({ type: 'BLUR_FIELD', field: 'password' });
+    await tick();
+
+    expect(emailRule).not.toHaveBeenCalled();
+    expect(actor.getSnapshot().context.errors).toEqual({ confirmPassword: 'Senhas não conferem' });
+
+    actor.send({ type: 'CHANGE_FIELD', field: 'password', value: 'secret123' });
+    await tick();
+    expect(actor.getSnapshot().context.errors).toEqual({});
+  });
+});
+
+describe('field arrays', () => {
+  const rows = {
+    items: [
+      { sku: 'A', qty: 1 },
+      { sku: 'B', qty: 2 },
+      { sku: 'C', qty: 3 },
+    ],
+  };
+
+  it('keeps errors, touched flags and row keys attached to moved rows', () => {
+    const actor = createActor(createFormMachine(rows)).start();
+    actor.send({ type: 'BLUR_FIELD', field: 'items.2.sku' });
+    actor.send({ type: 'SET_FIELD_ERROR', field: 'items.0.qty', error: 'Too few' });
+    actor.send({ type: 'ARRAY_MOVE', field: 'items', from: 0, to: 2 });
+
+    const { context } = actor.getSnapshot();
+    expect(context.values.items.map((item) => item.sku)).toEqual(['B', 'C', 'A']);
+    expect(context.errors).toEqual({ 'items.2.qty': 'Too few' });
+    expect(context.touched).toEqual({ 'items.1.sku': true });
+    expect(context.fieldArrayKeys.items).toEqual(['1', '2', '0']);
+  });
+
+  it('drops state of removed rows and keys new rows', () => {
+    const actor = createActor(createFormMachine(rows)).start();
+    actor.send({ type: 'SET_FIELD_ERROR', field: 'items.1.qty', error: 'Too few' });
+    actor.send({ type: 'SET_FIELD_ERROR', field: 'items.2.qty', error: 'Too many' });
+    actor.send({ type: 'ARRAY_REMOVE', field: 'items', index: 1 });
+    actor.send({ type: 'ARRAY_INSERT', field: 'items', index: 0, value: { sku: 'Z', qty: 0 } });
+    actor.send({ type: 'ARRAY_SWAP', field: 'items', indexA: 0, indexB: 1 });
+
+    const { context } = actor.getSnapshot();
+    expect(context.values.items.map((item) => item.sku)).toEqual(['A', 'Z', 'C']);
+    expect(context.errors).toEqual({ 'items.2.qty': 'Too many' });
+    expect(context.fieldArrayKeys.items?.[0]).toBe('0');
+    expect(context.fieldArrayKeys.items?.[1]).toMatch(/^row-/);
+    expect(context.fieldArrayKeys.items?.[2]).toBe('2');
+  });
+
+  it('moves rows past the end to the last index', () => {
+    const actor = createActor(createFormMachine(rows)).start();
+    actor.send({ type: 'SET_FIELD_ERROR', field: 'items.0.qty', error: 'Too few' });
+    actor.send({ type: 'ARRAY_MOVE', field: 'items', from: 0, to: 10 });
+
+    const { context } = actor.getSnapshot();
+    expect(context.values.items.map((item) => item.sku)).toEqual(['B', 'C', 'A']);
+    expect(context.errors).toEqual({ 'items.2.qty': 'Too few' });
+  });
+
+  it.each([
+    { type: 'ARRAY_MOVE', field: 'items', from: 5, to: 0 },
+    { type: 'ARRAY_MOVE', field: 'items', from: -1, to: 0 },
+    { type: 'ARRAY_REMOVE', field: 'items', index: -1 },
+    { type: 'ARRAY_REMOVE', field: 'items', index: 3 },
+    { type: 'ARRAY_INSERT', field: 'items', index: -1, value: { sku: 'D', qty: 1 } },
+    { type: 'ARRAY_INSERT', field: 'items', index: 4, value: { sku: 'D', qty: 1 } },
+    { type: 'ARRAY_SWAP', field: 'items', indexA: 0, indexB: 3 },
+  ] as const)('ignores %o on rows that do not exist', (event) => {
+    const actor = createActor(createFormMachine(rows)).start();
+    actor.send({ type: 'SET_FIELD_ERROR', field: 'items.0.qty', error: 'Too few' });
+    actor.send({ type: 'SET_FIELD_ERROR', field: 'items.1.qty', error: 'Too many' });
+    actor.send(event);
+
+    const { context } = actor.getSnapshot();
+    expect(context.values.items.map((item) => item.sku)).toEqual(['A', 'B', 'C']);
+    expect(context.errors).toEqual({ 'items.0.qty': 'Too few', 'items.1.qty': 'Too many' });
+  });
+
+  it('restarts row validations in flight where the rows moved', async () => {
+    const tick = (ms = 0) => new Promise((resolve) => setTimeout(resolve, ms));
+    const actor = createActor(
+      createFormMachine(rows, async (values) => {
+        await tick(20);
+        const index = values.items.findIndex((item) => item.sku === 'B');
+        return index === -1 ? {} : { [`items.${index}.sku`]: 'SKU indisponível' };
+      })
+    ).start();
+
+    actor.send({ type: 'VALIDATE_FIELD', field: 'items.1.sku' });
+    actor.send({ type: 'ARRAY_REMOVE', field: 'items', index: 0 });
+    expect(actor.getSnapshot().context.validating).toEqual({ 'items.0.sku': true });
+    await tick(50);
+
+    const { context } = actor.getSnapshot();
+    expect(context.errors).toEqual({ 'items.0.sku': 'SKU indisponível' });
+    expect(context.validating).toEqual({});
+  });
+});
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import {
+  applyMask,
+  formatCEP,
+  formatCNPJ,
+  formatCPF,
+  formatCardNumber,
+  formatPhone,
+  parseCEP,
+  parseCNPJ,
+  parseCPF,
+  parseCardNumber,
+  parsePhone,
+} from '../utils/formatters';
+
+const pairs = [
+  { format: formatCPF, parse: parseCPF, raw: '52998224725', full: '529.982.247-25' },
+  { format: formatCNPJ, parse: parseCNPJ, raw: '12ABC34501DE35', full: '12.ABC.345/01DE-35' },
+  { format: formatCEP, parse: parseCEP, raw: '01310100', full: '01310-100' },
+  { format: formatPhone, parse: parsePhone, raw: '11987654321', full: '(11) 98765-4321' },
+  {
+    format: formatCardNumber,
+    parse: parseCardNumber,
+    raw: '4111111111111111',
+    full: '4111 1111 1111 1111',
+  },
+];
+
+describe('formatters', () => {
+  it.each(pairs)('formats complete values as $full', ({ format, raw, full }) => {
+    expect(format(raw)).toBe(full);
+    expect(format(full)).toBe(full);
+  });
+
+  it.each(pairs)('round-trips every partial prefix of $full', ({ format, parse, raw }) => {
+    for (let length = 0; length <= raw.length; length += 1) {
+      const partial = raw.slice(0, length);
+      expect(parse(format(partial))).toBe(partial);
+      expect(format(parse(format(partial)))).toBe(format(partial));
+    }
+  });
+
+  it('does not add trailing separators while typing', () => {
+    expect(formatCPF('529')).toBe('529');
+    expect(formatCPF('5299')).toBe('529.9');
+    expect(formatPhone('11')).toBe('(11');
+    expect(formatPhone('113')).toBe('(11) 3');
+    expect(formatPhone('1134567890')).toBe('(11) 3456-7890');
+    expect(applyMask('abc', '999')).toBe('');
+  });
+
+  it('truncates input beyond the mask', () => {
+    expect(formatCEP('013101009')).toBe('01310-100');
+    expect(formatCNPJ('11.222.333/0001-819')).toBe('11.222.333/0001-81');
+  });
+});
@@ -0,0 +1,139 @@
+import { act, render, renderHook, screen, waitFor } from '@testing-library/react';
+import type React from 'react';
+import { describe, expect, it } from 'vitest';
+import { createActor } from 'xstate';
+import { z } from 'zod';
+import {
+  FieldMessages,
+  FormFieldGroup,
+  FormFieldMUI,
+  formFieldMachine,
+} from '../components/FormField';
+import { FormI18nProvider } from '../components/FormI18nProvider';
+import { useForm } from '../hooks/useForm';
+import { createTranslator, enMessages, esMessages, getLocaleMessages } from '../i18n';
+import { validators } from '../validators';
+import { createCPFSchema } from '../validators/brazilian';
+
+describe('message catalogs', () => {
+  it('translates structured errors, keeping plain messages and unknown codes', () => {
+    const translate = createTranslator(enMessages);
+    expect(translate(validators.minLength(8)('abc') ?? '')).toBe('At least 8 characters');
+    expect(translate('Senhas não conferem')).toBe('Senhas não conferem');
+    expect(translate({ code: 'username.taken' })).toBe('username.taken');
+    expect(getLocaleMessages('es-AR')).toBe(esMessages);
+  });
+});
+
+interface SignUp {
+  name: string;
+  nickname: string;
+}
+
+const initialValues: SignUp = { name: '', nickname: '' };
+const fieldValidators = { name: validators.required() };
+
+describe('FormI18nProvider', () => {
+  it('resolves validator errors in the provided locale and follows locale changes', async () => {
+    let locale = 'en';
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <FormI18nProvider locale={locale}>{children}</FormI18nProvider>
+    );
+    const { result, rerender } = renderHook(
+      () => useForm({ initialValues, validators: fieldValidators }),
+      { wrapper }
+    );
+
+    await act(async () => {
+      await result.current.handleSubmit();
+    });
+    expect(result.current.errors).toEqual({ name: 'Required field' });
+
+    locale = 'es';
+    rerender();
+    await waitFor(() => expect(result.current.errors).toEqual({ name: 'Campo obligatorio' }));
+  });
+
+  it('applies per-app message overrides', async () => {
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <FormI18nProvider locale="en" messages={{ required: 'Please fill in this field' }}>
+        {children}
+      </FormI18nProvider>
+    );
+    const { result } = renderHook(() => useForm({ initialValues, validators: fieldValidators }), {
+      wrapper,
+    });
+    await act(async () => {
+      await result.current.handleSubmit();
+    });
+    expect(result.current.errors).toEqual({ name: 'Please fill in this field' });
+  });
+
+  it('translates the default messages of the bundled schemas', async () => {
+    const schema = z.object({ cpf: createCPFSchema() });
+    expect(schema.safeParse({ cpf: '' }).error?.issues[0]?.message).toBe('CPF é obrigatório');
+
+    const wrapper = ({ children }: { children: React.ReactNode }) => (
+      <FormI18nProvider locale="en">{children}</FormI18nProvider>
+    );
+    const document = { cpf: '' };
+    const { result } = renderHook(() => useForm({ initialValues: document, schema }), {
+      wrapper,
+    });
+    await act(async () => {
+      await result.current.handleSubmit();
+    });
+    expect(result.current.errors).toEqual({ cpf: 'CPF is required' });
+
+    act(() => result.current.setFieldValue('cpf', '111.111.111-11'));
+    await act(async () => {
+      await result.current.handleSubmit();
+    });
+    expect(result.current.errors).toEqual({ cpf: 'Invalid CPF' });
+  });
+
+  it('translates the optional indicator', () => {
+    const NicknameForm = () => {
+      const form = useForm({ initialValues });
+      return <FormFieldMUI form={form} name="nickname" label="Nickname" showOptional />;
+    };
+    render(
+      <FormI18nProvider locale="en">
+        <NicknameForm />
+      </FormI18nProvider>
+    );
+    expect(screen.getByText('(optional)')).toBeInTheDocument();
+  });
+
+  it('translates the component labels', () => {
+    render(
+      <FormI18nProvider locale="es">
+        <FormFieldGroup title="Dirección" collapsible>
+          <span />
+        </FormFieldGroup>
+      </FormI18nProvider>
+    );
+    expect(screen.getByRole('button', { name: 'Contraer sección' })).toBeInTheDocument();
+  });
+
+  it('shows the unverified message of the current locale', async () => {
+    const actor = createActor(formFieldMachine, {
+      input: { validate: () => Promise.reject(new Error('offline')), autoValidate: true },
+    }).start();
+    const messages = (locale: string) => (
+      <FormI18nProvider locale={locale}>
+        <FieldMessages fieldId="email" machine={actor} />
+      </FormI18nProvider>
+    );
+    const { rerender } = render(messages('en'));
+    act(() => {
+      actor.send({ type: 'FOCUS' });
+      actor.send({ type: 'CHANGE', value: 'ana@x.com' });
+      actor.send({ type: 'BLUR' });
+    });
+    expect(await screen.findByText('Could not verify')).toBeInTheDocument();
+
+    rerender(messages('es'));
+    expect(screen.getByText('No se pudo verificar')).toBeInTheDocument();
+  });
+});
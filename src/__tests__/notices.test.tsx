@@ -0,0 +1,74 @@
+import { act, fireEvent, render, renderHook, screen } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { FieldMessages, FormFieldMUI } from '../components/FormField';
+import { useForm } from '../hooks/useForm';
+import { validators } from '../validators';
+import { type FieldValidators, infoRule, warningRule } from '../validators/registry';
+
+interface Address {
+  cep: string;
+}
+
+const initialValues: Address = { cep: '' };
+const fieldValidators: FieldValidators<Address> = {
+  cep: [
+    validators.required(),
+    warningRule((value: string) =>
+      value.startsWith('00') ? 'Este CEP parece incomum' : undefined
+    ),
+    infoRule(() => 'Usamos o CEP para calcular o frete'),
+  ],
+};
+
+describe('validation severity', () => {
+  it('keeps the first warning or info without blocking submission', async () => {
+    const { result } = renderHook(() => useForm({ initialValues, validators: fieldValidators }));
+    act(() => result.current.setFieldValue('cep', '00123456'));
+
+    await act(async () => {
+      const submit = await result.current.handleSubmit();
+      expect(submit.ok).toBe(true);
+    });
+    expect(result.current.errors).toEqual({});
+    expect(result.current.notices).toEqual({
+      cep: { message: 'Este CEP parece incomum', severity: 'warning' },
+    });
+  });
+
+  it('lets errors win over notices', async () => {
+    const { result } = renderHook(() => useForm({ initialValues, validators: fieldValidators }));
+    await act(async () => {
+      await result.current.handleSubmit();
+    });
+    expect(result.current.errors).toEqual({ cep: 'Campo obrigatório' });
+    expect(result.current.getFieldProps('cep').notice).toBeUndefined();
+  });
+
+  it('renders warnings with their own icon and politeness', async () => {
+    const AddressForm = () => {
+      const form = useForm({ initialValues, validators: fieldValidators });
+      return <FormFieldMUI form={form} name="cep" label="CEP" />;
+    };
+    render(<AddressForm />);
+    const input = screen.getByLabelText(/CEP/);
+    await act(async () => {
+      fireEvent.change(input, { target: { value: '00123456' } });
+      fireEvent.blur(input);
+    });
+
+    const warning = await screen.findByText('Este CEP parece incomum');
+    expect(warning.closest('output')).toHaveAttribute('aria-live', 'polite');
+    expect(screen.getByTestId('WarningAmberIcon')).toBeInTheDocument();
+    expect(input).toHaveAttribute('aria-describedby', 'cep-warning');
+    expect(input).toHaveAttribute('aria-invalid', 'false');
+  });
+
+  it('shows notices in FieldMessages only while no error is shown', () => {
+    const notice = { message: 'Usamos o CEP para calcular o frete', severity: 'info' } as const;
+    const { rerender } = render(<FieldMessages fieldId="cep" notice={notice} />);
+    expect(document.getElementById('cep-info')).toHaveAttribute('aria-live', 'off');
+
+    rerender(<FieldMessages fieldId="cep" notice={notice} error="CEP inválido" showError />);
+    expect(screen.queryByText(notice.message)).toBeNull();
+  });
+});
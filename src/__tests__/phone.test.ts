@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import {
+  formatPhoneNumber,
+  isValidE164,
+  isValidPhoneNumber,
+  parseE164,
+  toE164,
+} from '../utils/phone';
+
+describe('phone metadata', () => {
+  it('formats national numbers per country', () => {
+    expect(formatPhoneNumber('11987654321')).toBe('(11) 98765-4321');
+    expect(formatPhoneNumber('1134567890', 'BR')).toBe('(11) 3456-7890');
+    expect(formatPhoneNumber('912345678', 'PT')).toBe('912 345 678');
+    expect(formatPhoneNumber('91123456789', 'AR')).toBe('9 11 2345-6789');
+    expect(formatPhoneNumber('2015550123', 'US')).toBe('(201) 555-0123');
+  });
+
+  it('validates national numbers per country', () => {
+    expect(isValidPhoneNumber('(11) 98765-4321', 'BR')).toBe(true);
+    expect(isValidPhoneNumber('(01) 98765-4321', 'BR')).toBe(false);
+    expect(isValidPhoneNumber('912 345 678', 'PT')).toBe(true);
+    expect(isValidPhoneNumber('812 345 678', 'PT')).toBe(false);
+    expect(isValidPhoneNumber('(201) 555-0123', 'US')).toBe(true);
+    expect(isValidPhoneNumber('(101) 555-0123', 'US')).toBe(false);
+  });
+
+  it('normalizes to and from E.164', () => {
+    expect(toE164('(11) 98765-4321')).toBe('+5511987654321');
+    expect(toE164('912 345 678', 'PT')).toBe('+351912345678');
+    expect(toE164('', 'US')).toBe('');
+    expect(parseE164('+351912345678')).toEqual({ country: 'PT', nationalNumber: '912345678' });
+    expect(parseE164('+12015550123')).toEqual({ country: 'US', nationalNumber: '2015550123' });
+    expect(parseE164('+4420')).toBeUndefined();
+  });
+
+  it('validates E.164 numbers, optionally restricted to countries', () => {
+    expect(isValidE164('+5491123456789')).toBe(true);
+    expect(isValidE164('+12015550123', ['BR', 'PT'])).toBe(false);
+    expect(isValidE164('12015550123')).toBe(false);
+  });
+});
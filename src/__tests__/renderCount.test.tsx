@@ -0,0 +1,107 @@
+import { act, fireEvent, render, screen } from '@testing-library/react';
+import { Profiler, type ProfilerOnRenderCallback } from 'react';
+import { describe, expect, it } from 'vitest';
+import { FormFieldMUI } from '../components/FormField';
+import { FormProvider } from '../components/FormProvider';
+import { useField } from '../hooks/useField';
+import { useForm } from '../hooks/useForm';
+import { useWatch } from '../hooks/useWatch';
+
+const FIELD_COUNT = 150;
+const fieldNames = Array.from({ length: FIELD_COUNT }, (_, index) => `field${index}`);
+const initialValues: Record<string, string> = Object.fromEntries(
+  fieldNames.map((name) => [name, ''])
+);
+
+const setup = () => {
+  const renders: Record<string, number> = {};
+  const count: ProfilerOnRenderCallback = (id) => {
+    renders[id] = (renders[id] ?? 0) + 1;
+  };
+
+  const Field = ({ name }: { name: string }) => {
+    const { fieldProps } = useField(name);
+    const { value, onChange, onBlur, id } = fieldProps;
+    return (
+      <input id={id} aria-label={name} value={String(value)} onChange={onChange} onBlur={onBlur} />
+    );
+  };
+
+  const Watcher = ({ name }: { name: string }) => {
+    const value = useWatch(name);
+    return <output aria-label={`watch ${name}`}>{String(value)}</output>;
+  };
+
+  const UnderwritingForm = () => {
+    renders.form = (renders.form ?? 0) + 1;
+    const form = useForm({ initialValues });
+    return (
+      <FormProvider form={form}>
+        {fieldNames.map((name) => (
+          <Profiler key={name} id={name} onRender={count}>
+            <Field name={name} />
+          </Profiler>
+        ))}
+        <Profiler id="watch-field0" onRender={count}>
+          <Watcher name="field0" />
+        </Profiler>
+        <Profiler id="watch-field1" onRender={count}>
+          <Watcher name="field1" />
+        </Profiler>
+      </FormProvider>
+    );
+  };
+
+  render(<UnderwritingForm />);
+  return renders;
+};
+
+describe('render counts', () => {
+  it('re-renders only the changed field and its watchers while typing', () => {
+    const renders = setup();
+    const input = screen.getByLabelText('field0');
+
+    for (const value of ['a', 'ab', 'abc']) {
+      act(() => {
+        fireEvent.change(input, { target: { value } });
+      });
+    }
+
+    expect(screen.getByLabelText('watch field0')).toHaveTextContent('abc');
+    expect(renders.form).toBe(1);
+    expect(renders.field0).toBe(4);
+    expect(renders['watch-field0']).toBe(4);
+    expect(renders['watch-field1']).toBe(1);
+    for (const name of fieldNames.slice(1)) {
+      expect(renders[name]).toBe(1);
+    }
+  });
+
+  it('re-renders the form host only for the state it reads', () => {
+    let hostRenders = 0;
+    const hostValues = { name: '', email: '' };
+    const Host = () => {
+      hostRenders += 1;
+      const form = useForm({ initialValues: hostValues });
+      return (
+        <>
+          <FormFieldMUI form={form} name="name" label="Nome" />
+          <span>{form.isDirty ? 'alterado' : 'original'}</span>
+        </>
+      );
+    };
+    render(<Host />);
+    const input = screen.getByLabelText('Nome');
+
+    act(() => {
+      fireEvent.change(input, { target: { value: 'A' } });
+    });
+    act(() => {
+      fireEvent.change(input, { target: { value: 'An' } });
+    });
+
+    // isDirty flipped once; the second keystroke left it unchanged
+    expect(screen.getByText('alterado')).toBeInTheDocument();
+    expect(hostRenders).toBe(2);
+  });
+});
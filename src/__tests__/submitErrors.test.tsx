@@ -0,0 +1,126 @@
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it } from 'vitest';
+import { useForm } from '../hooks/useForm';
+import { graphQLErrorMapper, issuesErrorMapper, problemDetailsMapper } from '../submitErrors';
+
+describe('submit error mappers', () => {
+  it('maps RFC 7807 problem details', () => {
+    const mapper = problemDetailsMapper();
+    expect(
+      mapper({
+        response: {
+          data: {
+            title: 'Dados inválidos',
+            'invalid-params': [{ name: 'email', reason: 'E-mail já cadastrado' }],
+            errors: [{ pointer: '#/address/zip', detail: 'CEP inexistente' }],
+          },
+        },
+      })
+    ).toEqual({
+      errors: { email: 'E-mail já cadastrado', 'address.zip': 'CEP inexistente' },
+      message: 'Dados inválidos',
+    });
+    expect(mapper(new Error('Network error'))).toBeUndefined();
+  });
+
+  it('maps GraphQL errors with extensions.field', () => {
+    expect(
+      graphQLErrorMapper()({
+        graphQLErrors: [
+          { message: 'CPF já cadastrado', extensions: { field: 'cpf' } },
+          { message: 'Limite de cadastros atingido' },
+        ],
+      })
+    ).toEqual({
+      errors: { cpf: 'CPF já cadastrado' },
+      message: 'Limite de cadastros atingido',
+    });
+  });
+
+  it('maps Zod-like issue arrays', () => {
+    expect(
+      issuesErrorMapper()({
+        issues: [
+          { path: ['items', 0, 'qty'], message: 'Sem estoque' },
+          { path: [], message: 'Pedido inválido' },
+        ],
+      })
+    ).toEqual({ errors: { 'items.0.qty': 'Sem estoque' }, message: 'Pedido inválido' });
+  });
+});
+
+interface Signup {
+  email: string;
+  name: string;
+}
+
+const initialValues: Signup = { email: 'ana@x.com', name: 'Ana' };
+
+describe('useForm submit errors', () => {
+  it('keeps mapped errors until the affected field changes or the form is submitted again', async () => {
+    let response: unknown = {
+      body: {
+        detail: 'Revise os dados',
+        errors: { email: ['E-mail já cadastrado'] },
+      },
+    };
+    const onSubmit = async () => {
+      if (response) {
+        throw response;
+      }
+    };
+    const { result } = renderHook(() => useForm({ initialValues, onSubmit }));
+
+    await act(async () => {
+      const submit = await result.current.handleSubmit();
+      expect(submit.ok).toBe(false);
+    });
+    expect(result.current.errors).toEqual({ email: 'E-mail já cadastrado' });
+    expect(result.current.getFieldProps('email').error).toBe('E-mail já cadastrado');
+    expect(result.current.submitError).toBe('Revise os dados');
+
+    act(() => result.current.setFieldValue('name', 'Ana Maria'));
+    expect(result.current.errors.email).toBe('E-mail já cadastrado');
+    act(() => result.current.setFieldValue('email', 'ana.maria@x.com'));
+    expect(result.current.errors.email).toBeUndefined();
+
+    response = undefined;
+    await act(async () => {
+      await result.current.handleSubmit();
+    });
+    expect(result.current.submitError).toBeUndefined();
+  });
+
+  it('falls back to a generic message for unrecognized errors', async () => {
+    const onSubmit = async () => {
+      throw new Error('Failed to fetch');
+    };
+    const { result } = renderHook(() => useForm({ initialValues, onSubmit }));
+    await act(async () => {
+      await result.current.handleSubmit();
+    });
+    expect(result.current.submitError).toBe(
+      'Não foi possível enviar o formulário. Tente novamente.'
+    );
+  });
+
+  it('settles the submission when the mapper throws', async () => {
+    const onSubmit = async () => {
+      throw 'Bad Gateway';
+    };
+    const mapSubmitError = () => {
+      throw new TypeError('Cannot read properties of undefined');
+    };
+    const { result } = renderHook(() => useForm({ initialValues, onSubmit, mapSubmitError }));
+
+    let outcome: Awaited<ReturnType<typeof result.current.handleSubmit>> | undefined;
+    await act(async () => {
+      outcome = await result.current.handleSubmit();
+    });
+    expect(outcome).toEqual({ ok: false, errors: {}, error: 'Bad Gateway' });
+    expect(result.current.isSubmitting).toBe(false);
+    expect(result.current.submitError).toBe(
+      'Não foi possível enviar o formulário. Tente novamente.'
+    );
+  });
+});
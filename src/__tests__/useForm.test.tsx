@@ -0,0 +1,145 @@
+import { act, renderHook } from '@testing-library/react';
+import { describe, expect, it, vi } from 'vitest';
+import { z } from 'zod';
+import { useForm } from '../hooks/useForm';
+
+const checkUsername = async ({ username }: { username: string }) => {
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  return username === 'taken' ? { username: 'Usuário indisponível' } : {};
+};
+
+describe('useForm', () => {
+  it('resolves validateForm and validateField with the machine result', async () => {
+    const initialValues = { username: 'taken' };
+    const { result } = renderHook(() => useForm({ initialValues, validate: checkUsername }));
+
+    let valid: boolean | undefined;
+    await act(async () => {
+      valid = await result.current.validateField('username');
+    });
+    expect(valid).toBe(false);
+    expect(result.current.errors.username).toBe('Usuário indisponível');
+
+    act(() => result.current.setFieldValue('username', 'free'));
+    await act(async () => {
+      valid = await result.current.validateForm();
+    });
+    expect(valid).toBe(true);
+  });
+
+  it('runs onSubmit after async validation and returns a typed result', async () => {
+    const onSubmit = vi.fn();
+    const initialValues = { username: 'taken' };
+    const { result } = renderHook(() =>
+      useForm({ initialValues, validate: checkUsername, onSubmit })
+    );
+
+    let outcome: Awaited<ReturnType<typeof result.current.handleSubmit>> | undefined;
+    await act(async () => {
+      outcome = await result.current.handleSubmit();
+    });
+    expect(outcome).toEqual({ ok: false, errors: { username: 'Usuário indisponível' } });
+    expect(onSubmit).not.toHaveBeenCalled();
+
+    act(() => result.current.setFieldValue('username', 'free'));
+    await act(async () => {
+      outcome = await result.current.handleSubmit();
+    });
+    expect(outcome).toEqual({ ok: true, values: { username: 'free' } });
+    expect(onSubmit).toHaveBeenCalledWith({ username: 'free' });
+    expect(result.current.isSubmitting).toBe(false);
+  });
+
+  it('settles submits made while one is in progress with the same result', async () => {
+    let release = () => {};
+    const onSubmit = vi.fn(
+      () =>
+        new Promise<void>((resolve) => {
+          release = resolve;
+        })
+    );
+    const initialValues = { username: 'free' };
+    const { result } = renderHook(() =>
+      useForm({ initialValues, validate: checkUsername, onSubmit })
+    );
+
+    let outcomes: unknown[] = [];
+    await act(async () => {
+      // The first submit arrives while the form is validating
+      void result.current.validateForm();
+      const submits = [result.current.handleSubmit(), result.current.handleSubmit()];
+      await vi.waitFor(() => expect(onSubmit).toHaveBeenCalled());
+      submits.push(result.current.handleSubmit());
+      release();
+      outcomes = await Promise.all(submits);
+    });
+    expect(onSubmit).toHaveBeenCalledTimes(1);
+    expect(outcomes).toEqual(Array(3).fill({ ok: true, values: { username: 'free' } }));
+    expect(result.current.submitCount).toBe(1);
+  });
+
+  it('validates with a zod schema and submits its parsed output', async () => {
+    const schema = z.object({
+      name: z.string().trim().min(1, 'Campo obrigatório'),
+      address: z.object({ zip: z.string().regex(/^\d{5}-\d{3}$/, 'CEP inválido') }),
+      age: z.string().transform(Number),
+    });
+    const onSubmit = vi.fn();
+    const initialValues = { name: ' Ana ', address: { zip: '0131' }, age: '30' };
+    const { result } = renderHook(() => useForm({ initialValues, schema, onSubmit }));
+
+    let outcome: Awaited<ReturnType<typeof result.current.handleSubmit>> | undefined;
+    await act(async () => {
+      outcome = await result.current.handleSubmit();
+    });
+    expect(outcome).toEqual({ ok: false, errors: { 'address.zip': 'CEP inválido' } });
+
+    act(() => result.current.setFieldValue('address.zip', '01310-100'));
+    await act(async () => {
+      outcome = await result.current.handleSubmit();
+    });
+    expect(onSubmit).toHaveBeenCalledWith({ name: 'Ana', address: { zip: '01310-100' }, age: 30 });
+  });
+
+  it('tells required fields from the schema without parsing it', () => {
+    const schema = z.object({
+      username: z.string().refine(async (value) => value !== 'taken'),
+      nickname: z
+        .string()
+        .optional()
+        .refine(async (value) => value !== 'taken'),
+      bio: z.string().default(''),
+    });
+    const initialValues = { username: '', nickname: '', bio: '' };
+    const { result } = renderHook(() => useForm({ initialValues, schema }));
+
+    expect(result.current.getFieldProps('username').required).toBe(true);
+    expect(result.current.getFieldProps('nickname').required).toBe(false);
+    expect(result.current.getFieldProps('bio').required).toBe(false);
+  });
+
+  it('blocks submission on schema issues about the values as a whole', async () => {
+    const schema = z
+      .object({ password: z.string(), confirm: z.string() })
+      .refine((values) => values.password === values.confirm, 'As senhas não conferem');
+    const onSubmit = vi.fn();
+    const initialValues = { password: 'segredo', confirm: 'segredo!' };
+    const { result } = renderHook(() => useForm({ initialValues, schema, onSubmit }));
+
+    let outcome: Awaited<ReturnType<typeof result.current.handleSubmit>> | undefined;
+    await act(async () => {
+      outcome = await result.current.handleSubmit();
+    });
+    expect(outcome).toEqual({ ok: false, errors: {} });
+    expect(onSubmit).not.toHaveBeenCalled();
+    expect(result.current.formError).toBe('As senhas não conferem');
+    expect(result.current.isValid).toBe(false);
+
+    act(() => result.current.setFieldValue('confirm', 'segredo'));
+    await act(async () => {
+      outcome = await result.current.handleSubmit();
+    });
+    expect(outcome).toEqual({ ok: true, values: { password: 'segredo', confirm: 'segredo' } });
+    expect(result.current.formError).toBeUndefined();
+  });
+});
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { validators } from '../validators';
+import { isFieldRequired, runFieldRules, warningRule } from '../validators/registry';
+
+describe('validators', () => {
+  it('exposes the generic checks as rules returning structured errors', () => {
+    expect(validators.url()('not-a-url')).toEqual({ code: 'url' });
+    expect(validators.url()('https://example.com')).toBeUndefined();
+    expect(validators.price()('10.999')).toEqual({ code: 'price' });
+    expect(validators.minAge(18)('2999-01-01')).toEqual({ code: 'minAge', params: { min: 18 } });
+    expect(validators.oneOf(['red', 'green'], 'Cor inválida')('blue')).toBe('Cor inválida');
+    expect(validators.check((value: number) => value % 2 === 0, 'Use um número par')(3)).toBe(
+      'Use um número par'
+    );
+  });
+
+  it('composes rules: the first error wins and required is kept', async () => {
+    const password = validators.compose(
+      validators.required(),
+      warningRule((value: string) => (value.length < 12 ? 'Senha fraca' : undefined)),
+      validators.minLength(8)
+    );
+    expect(password('', {}, {})).toEqual({ code: 'required' });
+    expect(password('abc', {}, {})).toEqual({ code: 'minLength', params: { min: 8 } });
+    expect(password('abcdefgh', {}, {})).toEqual({ message: 'Senha fraca', severity: 'warning' });
+    expect(isFieldRequired({ password }, 'password')).toBe(true);
+
+    const available = validators.compose(validators.email(), async (value: string) =>
+      value === 'ana@x.com' ? 'E-mail já cadastrado' : undefined
+    );
+    await expect(available('ana@x.com', {}, {})).resolves.toBe('E-mail já cadastrado');
+  });
+
+  it('applies rules conditionally with when and optional, and inverts them with not', async () => {
+    const cnpj = validators.when(
+      (_: string, values: { type: string }) => values.type === 'company',
+      validators.cnpj()
+    );
+    expect(cnpj('123', { type: 'person' }, {})).toBeUndefined();
+    expect(cnpj('123', { type: 'company' }, {})).toEqual({ code: 'cnpj' });
+
+    const website = validators.optional(validators.url());
+    expect(website('', {}, {})).toBeUndefined();
+    expect(website('site', {}, {})).toEqual({ code: 'url' });
+
+    const username = validators.not(validators.oneOf(['admin', 'root']), 'Nome reservado');
+    expect(username('admin', {}, {})).toBe('Nome reservado');
+    expect(username('ana', {}, {})).toBeUndefined();
+
+    const result = await runFieldRules({ website }, 'website', 'site', {});
+    expect(result).toEqual({ error: 'URL inválida', notice: undefined });
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * ErrorSummary Component
+ *
+ * Level 2 Molecule - List of the form's errors linking to their fields,
+ * following the GOV.UK error summary pattern
+ *
+ * @example
+ * <form onSubmit={form.handleSubmit}>
+ *   <ErrorSummary form={form} />
+ *   <FormField form={form} name="email" label="E-mail" />
+ * </form>
+ */
+
+import { Alert, type AlertProps, AlertTitle, Link, List, ListItem } from '@mui/material';
+import { useSelector } from '@xstate/react';
+import type React from 'react';
+import { useEffect, useRef } from 'react';
+import type { UseFormReturn } from '../../hooks/useForm';
+import {
+  getFormError,
+  getSubmitCount,
+  getSubmitError,
+  getVisibleFieldError,
+  isFormSubmitting,
+} from '../../machines/formMachine';
+import type { Path } from '../../types/path';
+import { focusElement, focusField } from '../../utils/focus';
+import { collectLeafPaths, isWithinPath } from '../../utils/path';
+import { useFormI18n } from '../FormI18nProvider';
+import { useOptionalFormContext } from '../FormProvider';
+
+export interface ErrorSummaryProps<T extends object = Record<string, unknown>>
+  extends Omit<AlertProps, 'children' | 'title'> {
+  /**
+   * Form returned by useForm (defaults to the one from FormProvider)
+   */
+  form?: UseFormReturn<T, unknown>;
+
+  /**
+   * @default the locale's `errorSummaryTitle` message ('Há um problema')
+   */
+  title?: React.ReactNode;
+
+  /**
+   * What receives focus after a failed submit: the summary, the first invalid
+   * field (the summary when it can't be found) or nothing
+   * @default 'summary'
+   */
+  focusOnSubmit?: 'summary' | 'field' | false;
+}
+
+interface SummaryItem {
+  path: string;
+  message: string;
+}
+
+const isSameItems = (a: SummaryItem[], b: SummaryItem[]): boolean =>
+  a.length === b.length &&
+  a.every((item, index) => item.path === b[index]?.path && item.message === b[index]?.message);
+
+/**
+ * ErrorSummary - shown after a submit attempt while the form has errors
+ *
+ * Errors are listed in the order of the fields in the form values, each
+ * linking to its field (`#${fieldId}`, or the control next to
+ * `${fieldId}-error`). The form-level `submitError` and
+ * `formError` are listed first.
+ */
+export const ErrorSummary = <T extends object = Record<string, unknown>>({
+  form: formProp,
+  title,
+  focusOnSubmit = 'summary',
+  ...alertProps
+}: ErrorSummaryProps<T>): React.ReactElement | null => {
+  const form = useOptionalFormContext(formProp);
+  const { messages } = useFormI18n();
+  const actorRef = form?.actorRef;
+  const summaryRef = useRef<HTMLDivElement>(null);
+
+  const submitCount = useSelector(actorRef, (snapshot) =>
+    snapshot ? getSubmitCount(snapshot) : 0
+  );
+  const isSubmitting = useSelector(actorRef, (snapshot) =>
+    snapshot ? isFormSubmitting(snapshot) : false
+  );
+  const submitError = useSelector(actorRef, (snapshot) =>
+    snapshot ? getSubmitError(snapshot) : undefined
+  );
+  const formError = useSelector(actorRef, (snapshot) =>
+    snapshot ? getFormError(snapshot) : undefined
+  );
+  const items = useSelector(
+    actorRef,
+    (snapshot): SummaryItem[] => {
+      if (!snapshot) {
+        return [];
+      }
+      const leaves = collectLeafPaths(snapshot.context.values);
+      const rank = (path: string) => {
+        const index = leaves.findIndex((leaf) => isWithinPath(leaf, [path]));
+        return index === -1 ? leaves.length : index;
+      };
+      return Object.keys(snapshot.context.errors)
+        .map((path) => ({ path, message: getVisibleFieldError(snapshot, path as Path<T>) ?? '' }))
+        .filter((item) => item.message)
+        .sort((a, b) => rank(a.path) - rank(b.path));
+    },
+    isSameItems
+  );
+
+  const getFieldId = (path: string) => form?.getFieldProps(path as Path<T>).id ?? path;
+  const visible = submitCount > 0 && (items.length > 0 || !!submitError || !!formError);
+
+  // Move focus once per failed submit (checked after every render)
+  const focusedSubmit = useRef(submitCount);
+  useEffect(() => {
+    if (isSubmitting || submitCount === focusedSubmit.current) {
+      return;
+    }
+    focusedSubmit.current = submitCount;
+    if (!visible || !focusOnSubmit) {
+      return;
+    }
+    const [first] = items;
+    if (focusOnSubmit === 'field' && first && focusField(getFieldId(first.path))) {
+      return;
+    }
+    if (summaryRef.current) {
+      focusElement(summaryRef.current);
+    }
+  });
+
+  if (!visible) {
+    return null;
+  }
+
+  return (
+    <Alert ref={summaryRef} severity="error" tabIndex={-1} {...alertProps}>
+      <AlertTitle>{title ?? messages.errorSummaryTitle}</AlertTitle>
+      <List dense disablePadding>
+        {submitError && <ListItem disableGutters>{submitError}</ListItem>}
+        {formError && <ListItem disableGutters>{formError}</ListItem>}
+        {items.map((item) => {
+          const fieldId = getFieldId(item.path);
+          return (
+            <ListItem key={item.path} disableGutters>
+              <Link
+                href={`#${fieldId}`}
+                color="inherit"
+                onClick={(event) => {
+                  if (focusField(fieldId)) {
+                    event.preventDefault();
+                  }
+                }}
+              >
+                {item.message}
+              </Link>
+            </ListItem>
+          );
+        })}
+      </List>
+    </Alert>
+  );
+};
@@ -0,0 +1,5 @@
+/**
+ * ErrorSummary Component Exports
+ */
+
+export { ErrorSummary, type ErrorSummaryProps } from './ErrorSummary';
@@ -0,0 +1,77 @@
+/**
+ * FormDraftPrompt Component
+ *
+ * Level 2 Molecule - Asks whether to restore a saved draft, built on MUI Alert
+ *
+ * @example
+ * const draft = useFormDraft({ key: 'onboarding' }, form)
+ * <FormDraftPrompt draft={draft} />
+ */
+
+import { Alert, type AlertProps, Button } from '@mui/material';
+import type React from 'react';
+import type { UseFormDraftReturn } from '../../hooks/useFormDraft';
+import { useFormI18n } from '../FormI18nProvider';
+
+export interface FormDraftPromptProps extends Omit<AlertProps, 'action' | 'children'> {
+  /**
+   * Draft returned by useFormDraft
+   */
+  draft: UseFormDraftReturn;
+
+  /**
+   * Prompt text (defaults to a message with the save date)
+   */
+  message?: React.ReactNode;
+
+  /**
+   * @default the `draftRestore` message of the current locale
+   */
+  restoreText?: string;
+
+  /**
+   * @default the `draftDiscard` message of the current locale
+   */
+  discardText?: string;
+}
+
+/**
+ * FormDraftPrompt - rendered only while a saved draft waits for a decision
+ */
+export const FormDraftPrompt = ({
+  draft,
+  message,
+  restoreText,
+  discardText,
+  ...alertProps
+}: FormDraftPromptProps): React.ReactElement | null => {
+  const { locale, messages, translate } = useFormI18n();
+  if (draft.status !== 'pending') {
+    return null;
+  }
+
+  const savedAt = draft.savedAt?.toLocaleString(locale, {
+    dateStyle: 'short',
+    timeStyle: 'short',
+  });
+
+  return (
+    <Alert
+      severity="info"
+      {...alertProps}
+      action={
+        <>
+          <Button color="inherit" size="small" onClick={() => draft.discard()}>
+            {discardText ?? messages.draftDiscard}
+          </Button>
+          <Button color="inherit" size="small" onClick={draft.restore}>
+            {restoreText ?? messages.draftRestore}
+          </Button>
+        </>
+      }
+    >
+      {message ??
+        (savedAt ? translate({ code: 'draftFoundAt', params: { savedAt } }) : messages.draftFound)}
+    </Alert>
+  );
+};
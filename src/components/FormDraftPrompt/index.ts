@@ -0,0 +1,5 @@
+/**
+ * FormDraftPrompt Component Exports
+ */
+
+export { FormDraftPrompt, type FormDraftPromptProps } from './FormDraftPrompt';
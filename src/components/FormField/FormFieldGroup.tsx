@@ -0,0 +1,326 @@
+/**
+ * FormFieldGroup and FormFieldRow Components
+ *
+ * Level 2 Molecules - Layout for related fields that knows about their errors
+ *
+ * @example
+ * <FormFieldGroup title="Endereço" name="address" collapsible>
+ *   <FormFieldRow columns={[4, 8]}>
+ *     <FormField form={form} name="address.zip" label="CEP" />
+ *     <FormField form={form} name="address.street" label="Rua" />
+ *   </FormFieldRow>
+ * </FormFieldGroup>
+ */
+
+import { ExpandLess, ExpandMore } from '@mui/icons-material';
+import {
+  Badge,
+  Box,
+  Collapse,
+  Grid,
+  IconButton,
+  type SxProps,
+  type Theme,
+  Typography,
+} from '@mui/material';
+import { useSelector } from '@xstate/react';
+import type React from 'react';
+import { Children, isValidElement, useEffect, useId, useRef, useState } from 'react';
+import { useFieldErrors } from '../../hooks/useFieldErrors';
+import type { UseFormReturn } from '../../hooks/useForm';
+import { getSubmitCount } from '../../machines/formMachine';
+import type { Path } from '../../types/path';
+import { toFieldId } from '../../utils/path';
+import { useFormI18n } from '../FormI18nProvider';
+import { useOptionalFormContext } from '../FormProvider';
+
+interface FieldErrorSourceProps<T extends object> {
+  /**
+   * Path of the group in the form values; its own error is shown as the
+   * group error and errors below it are counted
+   */
+  name?: Path<T>;
+
+  /**
+   * Other field paths whose errors belong to this group
+   */
+  fields?: Path<T>[];
+
+  /**
+   * Form returned by useForm (defaults to the one from FormProvider)
+   */
+  form?: UseFormReturn<T, unknown>;
+
+  /**
+   * Group-level error message (takes precedence over the error at `name`)
+   */
+  error?: string;
+}
+
+/**
+ * Visible errors of a group, plus its own error
+ */
+const useGroupErrors = <T extends object>({
+  name,
+  fields = [],
+  form,
+  error,
+}: FieldErrorSourceProps<T>) => {
+  const errors = useFieldErrors<T>(name ? [name, ...fields] : fields, form);
+  const groupError = error ?? (name ? errors[name] : undefined);
+  const fieldErrorCount = Object.keys(errors).filter((path) => path !== name).length;
+  return { groupError, fieldErrorCount };
+};
+
+export interface FormFieldGroupProps<T extends object = Record<string, unknown>>
+  extends FieldErrorSourceProps<T> {
+  /**
+   * Group title, rendered as the fieldset legend
+   */
+  title: React.ReactNode;
+
+  /**
+   * Text below the title
+   */
+  description?: React.ReactNode;
+
+  /**
+   * Field error count when the group is not connected to a form
+   */
+  errorCount?: number;
+
+  /**
+   * Whether to show the error count badge
+   * @default true
+   */
+  showErrorCount?: boolean;
+
+  /**
+   * Whether the group can be collapsed
+   * @default false
+   */
+  collapsible?: boolean;
+
+  /**
+   * Whether the group starts expanded (uncontrolled)
+   * @default true
+   */
+  defaultExpanded?: boolean;
+
+  /**
+   * Whether the group is expanded (controlled)
+   */
+  expanded?: boolean;
+
+  onExpandedChange?: (expanded: boolean) => void;
+
+  /**
+   * Disables every field in the group
+   */
+  disabled?: boolean;
+
+  children?: React.ReactNode;
+
+  sx?: SxProps<Theme>;
+}
+
+/**
+ * FormFieldGroup - fieldset with legend, group error and error count
+ *
+ * Collapsed groups expand after a submit attempt that leaves errors inside them.
+ */
+export const FormFieldGroup = <T extends object = Record<string, unknown>>({
+  title,
+  description,
+  name,
+  fields,
+  form,
+  error,
+  errorCount,
+  showErrorCount = true,
+  collapsible = false,
+  defaultExpanded = true,
+  expanded: expandedProp,
+  onExpandedChange,
+  disabled,
+  children,
+  sx,
+}: FormFieldGroupProps<T>): React.ReactElement => {
+  const generatedId = useId();
+  const groupId = name ? toFieldId(name) : generatedId;
+  const contentId = `${groupId}-content`;
+  const errorId = `${groupId}-error`;
+
+  const { groupError, fieldErrorCount } = useGroupErrors({ name, fields, form, error });
+  const count = errorCount ?? fieldErrorCount;
+  const actorRef = useOptionalFormContext(form)?.actorRef;
+  const submitCount = useSelector(actorRef, (snapshot) =>
+    snapshot ? getSubmitCount(snapshot) : 0
+  );
+
+  const { messages } = useFormI18n();
+  const [uncontrolledExpanded, setUncontrolledExpanded] = useState(defaultExpanded);
+  const expanded = !collapsible || (expandedProp ?? uncontrolledExpanded);
+
+  const setExpanded = (next: boolean) => {
+    if (expandedProp === undefined) {
+      setUncontrolledExpanded(next);
+    }
+    onExpandedChange?.(next);
+  };
+
+  // Reveal errors hidden in a collapsed group, once per submit attempt
+  const revealedSubmit = useRef(0);
+  useEffect(() => {
+    if (submitCount > revealedSubmit.current && count > 0) {
+      revealedSubmit.current = submitCount;
+      if (!expanded) {
+        setExpanded(true);
+      }
+    }
+  });
+
+  return (
+    <Box
+      component="fieldset"
+      disabled={disabled}
+      aria-invalid={count > 0 || !!groupError || undefined}
+      aria-describedby={groupError ? errorId : undefined}
+      sx={[
+        {
+          border: 1,
+          borderColor: groupError ? 'error.main' : 'divider',
+          borderRadius: 1,
+          m: 0,
+          px: 2,
+          pb: expanded ? 2 : 0,
+        },
+        ...(Array.isArray(sx) ? sx : [sx]),
+      ]}
+    >
+      <Box component="legend" sx={{ px: 0.5, display: 'flex', alignItems: 'center', gap: 1 }}>
+        <Badge
+          badgeContent={showErrorCount ? count : 0}
+          color="error"
+          sx={{ '& .MuiBadge-badge': { right: -12, top: '50%' } }}
+        >
+          <Typography component="span" variant="subtitle1" fontWeight={600}>
+            {title}
+          </Typography>
+        </Badge>
+        {collapsible && (
+          <IconButton
+            size="small"
+            onClick={() => setExpanded(!expanded)}
+            aria-expanded={expanded}
+            aria-controls={contentId}
+            aria-label={expanded ? messages.collapseSection : messages.expandSection}
+            sx={{ ml: showErrorCount && count > 0 ? 2 : 0 }}
+          >
+            {expanded ? <ExpandLess fontSize="small" /> : <ExpandMore fontSize="small" />}
+          </IconButton>
+        )}
+      </Box>
+
+      {description && (
+        <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+          {description}
+        </Typography>
+      )}
+
+      {groupError && (
+        <Typography
+          id={errorId}
+          role="alert"
+          aria-live="assertive"
+          variant="caption"
+          color="error.main"
+          component="p"
+          sx={{ mb: 1 }}
+        >
+          {groupError}
+        </Typography>
+      )}
+
+      <Collapse in={expanded} id={contentId}>
+        {children}
+      </Collapse>
+    </Box>
+  );
+};
+
+export interface FormFieldRowProps<T extends object = Record<string, unknown>>
+  extends Omit<FieldErrorSourceProps<T>, 'fields'> {
+  /**
+   * Column span of each child in a 12-column grid; children share the row equally by default
+   * @example
+   * <FormFieldRow columns={[4, 8]}>...</FormFieldRow>
+   */
+  columns?: number[];
+
+  /**
+   * Breakpoint from which fields sit side by side; below it they stack
+   * @default 'sm'
+   */
+  breakpoint?: 'sm' | 'md' | 'lg';
+
+  /**
+   * Spacing between fields
+   * @default 2
+   */
+  spacing?: number;
+
+  children?: React.ReactNode;
+
+  sx?: SxProps<Theme>;
+}
+
+/**
+ * FormFieldRow - responsive row of fields that stacks on small screens
+ *
+ * Fields are top-aligned so that an error under one of them does not shift
+ * the others; a row-level error (e.g. "start date after end date") is shown below.
+ */
+export const FormFieldRow = <T extends object = Record<string, unknown>>({
+  columns,
+  breakpoint = 'sm',
+  spacing = 2,
+  name,
+  form,
+  error,
+  children,
+  sx,
+}: FormFieldRowProps<T>): React.ReactElement => {
+  const generatedId = useId();
+  const errorId = `${name ? toFieldId(name) : generatedId}-error`;
+  const { groupError } = useGroupErrors({ name, form, error });
+  const items = Children.toArray(children).filter(isValidElement);
+
+  return (
+    <Box sx={sx}>
+      <Grid container spacing={spacing} alignItems="flex-start">
+        {items.map((item, index) => (
+          <Grid
+            key={item.key ?? index}
+            size={{ xs: 12, [breakpoint]: columns?.[index] ?? 12 / items.length }}
+          >
+            {item}
+          </Grid>
+        ))}
+      </Grid>
+      {groupError && (
+        <Typography
+          id={errorId}
+          role="alert"
+          aria-live="assertive"
+          variant="caption"
+          color="error.main"
+          component="p"
+          sx={{ mt: 0.5 }}
+        >
+          {groupError}
+        </Typography>
+      )}
+    </Box>
+  );
+};
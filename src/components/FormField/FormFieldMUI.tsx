@@ -4,20 +4,56 @@
  * Level 2 Molecule - Form field with label and error using MUI
  */
 
-import { Info as InfoIcon } from '@mui/icons-material'
+import { CheckCircle, Info as InfoIcon } from '@mui/icons-material'
 import {
   Box,
+  CircularProgress,
   FormControl,
   FormHelperText,
   FormLabel,
   IconButton,
+  InputAdornment,
   TextField,
   type TextFieldProps,
   Tooltip,
 } from '@mui/material'
+import { useActorRef, useSelector } from '@xstate/react'
 import type React from 'react'
+import { useEffect, useRef } from 'react'
+import { useField } from '../../hooks/useField'
+import type { UseFormReturn } from '../../hooks/useForm'
+import { getSubmitCount } from '../../machines/formMachine'
+import type { Path } from '../../types/path'
+import type { ValidationNotice } from '../../validators/registry'
+import { useFormI18n } from '../FormI18nProvider'
+import { NoticeMessage } from './FormFieldMessages'
+import {
+  type FormFieldMachineActor,
+  formFieldMachine,
+  getVisibleError,
+  isFocused,
+  isInvalid,
+  isPristine,
+  isUnverified,
+  isValid,
+  isValidating,
+} from './formfield.machine'
+
+export interface FormFieldMUIProps<T extends object = Record<string, unknown>>
+  extends Omit<TextFieldProps, 'error' | 'name'> {
+  /**
+   * Field name; with `form`, the path of the field in the form values
+   */
+  name?: Path<T>
+
+  /**
+   * Form returned by useForm; with `name`, wires value, change, blur, error
+   * display, the required indicator, the field's conditions (hidden
+   * fields render nothing; explicit props take precedence) and the read-only
+   * state of computed fields
+   */
+  form?: UseFormReturn<T, unknown>
 
-export interface FormFieldMUIProps extends Omit<TextFieldProps, 'error'> {
   /**
    * Field label
    */
@@ -33,6 +69,11 @@ export interface FormFieldMUIProps extends Omit<TextFieldProps, 'error'> {
    */
   error?: string
 
+  /**
+   * Warning or info, shown in place of the helper text while there is no error
+   */
+  notice?: ValidationNotice
+
   /**
    * Whether the field is required
    */
@@ -52,34 +93,278 @@ export interface FormFieldMUIProps extends Omit<TextFieldProps, 'error'> {
    * Info tooltip content
    */
   tooltip?: string
+
+  /**
+   * Drive the error, success and validating display from formFieldMachine:
+   * `true` creates a machine for this field, or pass an actor to share it
+   * (e.g. with FieldMessages). Errors show only after blur or a submit attempt.
+   */
+  machine?: boolean | FormFieldMachineActor
+
+  /**
+   * Whether an async check is running, shown as a spinner with `machine`
+   * (set from the form when connected)
+   */
+  validating?: boolean
+
+  /**
+   * Submit attempts so far; an increase reveals the error with `machine`
+   * (set from the form when connected)
+   */
+  submitCount?: number
+
+  /**
+   * Message shown once the field is valid, with `machine`
+   */
+  successText?: string
+}
+
+export const FormFieldMUI = <T extends object = Record<string, unknown>>({
+  form,
+  name,
+  ...props
+}: FormFieldMUIProps<T>): React.ReactElement | null =>
+  form && name ? (
+    <ConnectedFormField form={form} name={name} {...props} />
+  ) : (
+    <FormFieldView name={name} {...props} />
+  )
+
+type ConnectedFormFieldProps<T extends object> = FormFieldMUIProps<T> &
+  Required<Pick<FormFieldMUIProps<T>, 'form' | 'name'>>
+
+/**
+ * Subscribes to its own field, so typing in other fields doesn't re-render it
+ */
+const ConnectedFormField = <T extends object>({
+  form,
+  name,
+  error,
+  notice,
+  required,
+  disabled,
+  slotProps,
+  ...props
+}: ConnectedFormFieldProps<T>): React.ReactElement | null => {
+  const field = useField(name, form)
+  const { fieldProps } = field
+  // The machine applies its own display rules, so it gets the raw error
+  const submitCount = useSelector(form.actorRef, (state) =>
+    props.machine ? getSubmitCount(state) : 0
+  )
+  if (fieldProps.hidden) {
+    return null
+  }
+  return (
+    <FormFieldView
+      id={fieldProps.id}
+      name={fieldProps.name}
+      value={fieldProps.value ?? ''}
+      onChange={fieldProps.onChange}
+      onBlur={fieldProps.onBlur}
+      error={error ?? (props.machine ? field.error : fieldProps.error)}
+      notice={notice ?? fieldProps.notice}
+      required={required ?? fieldProps.required}
+      disabled={disabled ?? fieldProps.disabled}
+      validating={field.validating}
+      submitCount={submitCount}
+      slotProps={
+        fieldProps.readOnly
+          ? { ...slotProps, htmlInput: { ...slotProps?.htmlInput, readOnly: true } }
+          : slotProps
+      }
+      {...props}
+    />
+  )
 }
 
-export const FormFieldMUI: React.FC<FormFieldMUIProps> = ({
+type FormFieldViewProps = Omit<FormFieldMUIProps, 'form' | 'name'> & { name?: string }
+
+const FormFieldView = ({
+  machine,
+  validating,
+  submitCount,
+  successText,
+  ...props
+}: FormFieldViewProps): React.ReactElement =>
+  machine ? (
+    <MachineFormField
+      machine={machine}
+      validating={validating}
+      submitCount={submitCount}
+      successText={successText}
+      {...props}
+    />
+  ) : (
+    <FormFieldLayout {...props} />
+  )
+
+type MachineFormFieldProps = FormFieldViewProps & { machine: true | FormFieldMachineActor }
+
+/**
+ * Feeds focus, changes, blur, submit attempts and the outcome of the checks
+ * into formFieldMachine, and displays the field from its state
+ */
+const MachineFormField = ({
+  machine,
+  error,
+  validating = false,
+  submitCount = 0,
+  successText,
+  helperText,
+  onFocus,
+  onChange,
+  onBlur,
+  ...props
+}: MachineFormFieldProps): React.ReactElement => {
+  const { messages } = useFormI18n()
+  const ownActor = useActorRef(formFieldMachine, { input: {} })
+  const actor = machine === true ? ownActor : machine
+  const { send } = actor
+  const snapshot = useSelector(actor, (state) => state)
+
+  // Checks run outside the machine: report their state once the field was left
+  useEffect(() => {
+    if (snapshot.context.autoValidate || isPristine(snapshot) || isFocused(snapshot)) {
+      return
+    }
+    if (validating) {
+      if (!isValidating(snapshot)) {
+        send({ type: 'VALIDATE' })
+      }
+    } else if (error) {
+      if (getVisibleError(snapshot) !== error) {
+        send({ type: 'SET_ERROR', error: { message: error } })
+      }
+    } else if (!isValid(snapshot)) {
+      send({ type: 'CLEAR_ERROR' })
+    }
+  }, [snapshot, error, validating, send])
+
+  const lastSubmitCount = useRef(submitCount)
+  useEffect(() => {
+    if (submitCount > lastSubmitCount.current) {
+      send({ type: 'SUBMIT_ATTEMPT' })
+    } else if (submitCount === 0 && lastSubmitCount.current > 0) {
+      // The form was reset
+      send({ type: 'RESET' })
+    }
+    lastSubmitCount.current = submitCount
+  }, [submitCount, send])
+
+  const status = isValidating(snapshot) ? 'validating' : isValid(snapshot) ? 'valid' : undefined
+
+  return (
+    <FormFieldLayout
+      {...props}
+      error={isInvalid(snapshot) ? (error ?? getVisibleError(snapshot)) : undefined}
+      helperText={
+        isUnverified(snapshot)
+          ? (snapshot.context.unverifiedMessage ?? messages.unverified)
+          : status === 'valid' && successText
+            ? successText
+            : helperText
+      }
+      status={status}
+      onFocus={(event) => {
+        send({ type: 'FOCUS' })
+        onFocus?.(event)
+      }}
+      onChange={(event) => {
+        send({ type: 'CHANGE', value: event.target.value })
+        onChange?.(event)
+      }}
+      onBlur={(event) => {
+        send({ type: 'BLUR' })
+        onBlur?.(event)
+      }}
+    />
+  )
+}
+
+type FormFieldLayoutProps = Omit<
+  FormFieldViewProps,
+  'machine' | 'validating' | 'submitCount' | 'successText'
+> & {
+  /**
+   * State shown as an end adornment
+   */
+  status?: 'validating' | 'valid'
+}
+
+const FormFieldLayout = ({
   label,
   helperText,
   error,
+  notice,
   required,
   showRequired = true,
   showOptional = false,
   tooltip,
+  status,
   ...textFieldProps
-}) => {
+}: FormFieldLayoutProps): React.ReactElement => {
   const showRequiredIndicator = required && showRequired
+  const { messages } = useFormI18n()
   const showOptionalIndicator = !required && showOptional
 
+  // Message ids follow the FieldMessages convention so inputs can reference them;
+  // aria-required also covers the separate-label layout, where the input has no label
+  const { id } = textFieldProps
+  const shownNotice = error ? undefined : notice
+  const describedBy =
+    id &&
+    (error
+      ? `${id}-error`
+      : shownNotice
+        ? `${id}-${shownNotice.severity}`
+        : helperText
+          ? `${id}-helper`
+          : undefined)
+  const helper = error || (shownNotice ? <NoticeMessage notice={shownNotice} /> : helperText)
+  const color = textFieldProps.color ?? shownNotice?.severity
+  const describedSlotProps: TextFieldProps['slotProps'] = {
+    ...textFieldProps.slotProps,
+    input: {
+      ...textFieldProps.slotProps?.input,
+      'aria-describedby': describedBy,
+      ...(status && {
+        endAdornment: (
+          <InputAdornment position="end">
+            {status === 'validating' ? (
+              <CircularProgress size={20} aria-label={messages.validating} />
+            ) : (
+              <CheckCircle color="success" fontSize="small" aria-label={messages.valid} />
+            )}
+          </InputAdornment>
+        ),
+      }),
+    },
+    htmlInput: {
+      ...textFieldProps.slotProps?.htmlInput,
+      'aria-required': required || undefined,
+      'aria-busy': status === 'validating' || undefined,
+    },
+  }
+
   // If using TextField with built-in label
   if (!label || textFieldProps.variant === 'outlined' || textFieldProps.variant === 'filled') {
     return (
       <TextField
         {...textFieldProps}
         label={label}
+        color={color}
         error={!!error}
-        helperText={error || helperText}
+        helperText={helper}
         required={showRequiredIndicator}
         InputLabelProps={{
           ...textFieldProps.InputLabelProps,
           required: showRequiredIndicator,
         }}
+        slotProps={{
+          ...describedSlotProps,
+          formHelperText: { ...textFieldProps.slotProps?.formHelperText, id: describedBy },
+        }}
       />
     )
   }
@@ -93,6 +378,7 @@ export const FormFieldMUI: React.FC<FormFieldMUIProps> = ({
     >
       {label && (
         <FormLabel
+          htmlFor={id}
           required={showRequiredIndicator}
           sx={{
             mb: 0.5,
@@ -104,7 +390,7 @@ export const FormFieldMUI: React.FC<FormFieldMUIProps> = ({
           {label}
           {showOptionalIndicator && (
             <Box component="span" sx={{ fontSize: '0.875rem', color: 'text.secondary' }}>
-              (opcional)
+              {messages.optional}
             </Box>
           )}
           {tooltip && (
@@ -116,8 +402,14 @@ export const FormFieldMUI: React.FC<FormFieldMUIProps> = ({
           )}
         </FormLabel>
       )}
-      <TextField {...textFieldProps} error={!!error} variant="outlined" />
-      {(error || helperText) && <FormHelperText>{error || helperText}</FormHelperText>}
+      <TextField
+        {...textFieldProps}
+        color={color}
+        error={!!error}
+        variant="outlined"
+        slotProps={describedSlotProps}
+      />
+      {helper && <FormHelperText id={describedBy}>{helper}</FormHelperText>}
     </FormControl>
   )
 }
@@ -4,29 +4,123 @@
  * Level 2 Molecule - Error, success, and helper messages
  */
 
-import { CheckCircle, Error as ErrorIcon } from '@mui/icons-material'
-import { Box, Typography } from '@mui/material'
+import {
+  CheckCircle,
+  Error as ErrorIcon,
+  HelpOutline,
+  InfoOutlined,
+  WarningAmber,
+} from '@mui/icons-material'
+import { Box, CircularProgress, Typography } from '@mui/material'
+import { useSelector } from '@xstate/react'
 import type React from 'react'
+import type { ValidationNotice } from '../../validators/registry'
+import { useFormI18n } from '../FormI18nProvider'
+import {
+  type FormFieldMachineActor,
+  getVisibleError,
+  isInvalid,
+  isUnverified,
+  isValid,
+  isValidating,
+} from './formfield.machine'
 
 export interface FieldMessagesProps {
   fieldId: string
   error?: string
+  /**
+   * Warning or info, shown while no error is shown
+   */
+  notice?: ValidationNotice
   success?: string
   helperText?: string
   showError?: boolean
   showSuccess?: boolean
+  /**
+   * formFieldMachine actor to derive the display from, instead of
+   * showError/showSuccess: the error once the field is invalid (after blur or
+   * a submit attempt), the success message once it is valid, and its
+   * `unverifiedMessage` when a check could not complete
+   */
+  machine?: FormFieldMachineActor
+  /**
+   * Message next to the spinner while the machine is validating
+   */
+  validatingText?: string
+}
+
+const NOTICE_ICONS = { warning: WarningAmber, info: InfoOutlined }
+
+// Errors interrupt (assertive); warnings wait for the user to be idle, info is not announced
+const NOTICE_LIVE = { warning: 'polite', info: 'off' } as const
+
+/**
+ * Warning or info line, with id `${fieldId}-warning` / `${fieldId}-info`
+ */
+export const NoticeMessage: React.FC<{ fieldId?: string; notice: ValidationNotice }> = ({
+  fieldId,
+  notice,
+}) => {
+  const Icon = NOTICE_ICONS[notice.severity]
+  const color = `${notice.severity}.main`
+  return (
+    <Box
+      component="output"
+      id={fieldId && `${fieldId}-${notice.severity}`}
+      aria-live={NOTICE_LIVE[notice.severity]}
+      sx={{ display: 'flex', alignItems: 'center', gap: 0.5, color }}
+    >
+      <Icon fontSize="small" />
+      <Typography variant="caption" color={color}>
+        {notice.message}
+      </Typography>
+    </Box>
+  )
 }
 
 export const FieldMessages: React.FC<FieldMessagesProps> = ({
   fieldId,
-  error,
+  error: errorProp,
+  notice,
   success,
   helperText,
-  showError,
-  showSuccess,
+  showError: showErrorProp,
+  showSuccess: showSuccessProp,
+  machine,
+  validatingText,
 }) => {
+  const snapshot = useSelector(machine, (state) => state)
+  const { messages } = useFormI18n()
+  const error = errorProp ?? (snapshot && getVisibleError(snapshot))
+  const showError = snapshot ? isInvalid(snapshot) : showErrorProp
+  const showSuccess = snapshot ? isValid(snapshot) : showSuccessProp
+  const showValidating = !!snapshot && isValidating(snapshot)
+  const showUnverified = !!snapshot && isUnverified(snapshot)
+  const showNotice = !!notice && !(showError && error)
+
   return (
     <Box sx={{ mt: 0.5 }}>
+      {showValidating && (
+        <Box
+          component="output"
+          id={`${fieldId}-validating`}
+          aria-live="polite"
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 0.5,
+            color: 'text.secondary',
+          }}
+        >
+          <CircularProgress size={16} color="inherit" aria-label={messages.validating} />
+          {validatingText && (
+            <Typography variant="caption" color="text.secondary">
+              {validatingText}
+            </Typography>
+          )}
+        </Box>
+      )}
+
       {showError && error && (
         <Box
           id={`${fieldId}-error`}
@@ -46,7 +140,9 @@ export const FieldMessages: React.FC<FieldMessagesProps> = ({
         </Box>
       )}
 
-      {showSuccess && success && (
+      {showNotice && notice && <NoticeMessage fieldId={fieldId} notice={notice} />}
+
+      {showSuccess && success && !showNotice && (
         <Box
           id={`${fieldId}-success`}
           role="status"
@@ -65,7 +161,31 @@ export const FieldMessages: React.FC<FieldMessagesProps> = ({
         </Box>
       )}
 
-      {!showError && !showSuccess && helperText && (
+      {showUnverified && snapshot && (
+        <Box
+          component="output"
+          id={`${fieldId}-unverified`}
+          aria-live="polite"
+          sx={{
+            display: 'flex',
+            alignItems: 'center',
+            gap: 0.5,
+            color: 'warning.main',
+          }}
+        >
+          <HelpOutline fontSize="small" />
+          <Typography variant="caption" color="warning.main">
+            {snapshot.context.unverifiedMessage ?? messages.unverified}
+          </Typography>
+        </Box>
+      )}
+
+      {!showError &&
+        !showSuccess &&
+        !showValidating &&
+        !showUnverified &&
+        !showNotice &&
+        helperText && (
         <Typography id={`${fieldId}-helper`} variant="caption" color="text.secondary">
           {helperText}
         </Typography>
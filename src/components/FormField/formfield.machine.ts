@@ -2,10 +2,63 @@
  * FormField State Machine (XState v5)
  *
  * Manages form field states including validation and error display
+ *
+ * @example
+ * const actor = useActorRef(formFieldMachine, {
+ *   input: { validate: checkEmailAvailable, debounce: 300, timeout: 5000 },
+ * })
  */
 
-import { type ActorRefFrom, assign, type StateFrom, setup } from 'xstate'
+import { type ActorRefFrom, assign, fromPromise, type StateFrom, setup } from 'xstate'
 import type { FieldError } from '@pleme/types'
+import type { Translate } from '../../i18n/types'
+import { type FieldRule, getRuleError } from '../../validators/registry'
+
+/**
+ * Input of formFieldMachine; every option is optional (`input: {}` for a plain field)
+ */
+export interface FormFieldInput {
+  /**
+   * Initial value
+   */
+  value?: string
+
+  /**
+   * Validator invoked on VALIDATE (e.g. "email already registered"); gets an
+   * AbortSignal that is aborted when the check is superseded or cancelled
+   */
+  validate?: FieldRule<string>
+
+  /**
+   * Validate on blur and submit attempts without waiting for VALIDATE
+   * (defaults to true when `validate` is given; set it when the `validateField`
+   * actor is supplied through `provide`)
+   */
+  autoValidate?: boolean
+
+  /**
+   * Wait after the last VALIDATE before running the validator (ms)
+   * @default 0
+   */
+  debounce?: number
+
+  /**
+   * Give up on a validator that takes longer than this (ms) and move to `unverified`
+   */
+  timeout?: number
+
+  /**
+   * Message for the `unverified` state (validator timed out or failed)
+   * @default the `unverified` message of the active locale, resolved when rendered
+   */
+  unverifiedMessage?: string
+
+  /**
+   * Turns structured errors returned by `validate` into messages
+   * @default the pt-BR catalog
+   */
+  translate?: Translate
+}
 
 export interface FormFieldContext {
   value: string
@@ -14,6 +67,12 @@ export interface FormFieldContext {
   dirty: boolean
   validating: boolean
   focused: boolean
+  validate?: FieldRule<string>
+  autoValidate: boolean
+  debounce: number
+  timeout?: number
+  unverifiedMessage?: string
+  translate?: Translate
 }
 
 export type FormFieldEvent =
@@ -26,18 +85,37 @@ export type FormFieldEvent =
   | { type: 'RESET' }
   | { type: 'SUBMIT_ATTEMPT' }
 
-// Type helper for the machine (for isolated declarations)
-type FormFieldMachineType = ReturnType<
-  typeof setup<{
-    context: FormFieldContext
-    events: FormFieldEvent
-  }>['createMachine']
->
-
-export const formFieldMachine: FormFieldMachineType = setup({
+export const formFieldMachine = setup({
   types: {
     context: {} as FormFieldContext,
     events: {} as FormFieldEvent,
+    input: {} as FormFieldInput,
+  },
+
+  actors: {
+    // Without a validator the check never settles on its own: the result is
+    // reported with SET_ERROR / CLEAR_ERROR. Warnings and info leave the field valid
+    validateField: fromPromise<
+      string | undefined,
+      { value: string; validate?: FieldRule<string>; translate?: Translate }
+    >(async ({ input, signal }) =>
+      input.validate
+        ? getRuleError(
+            await input.validate(input.value, undefined, { signal, translate: input.translate }),
+            input.translate
+          )
+        : new Promise(() => {})
+    ),
+  },
+
+  delays: {
+    debounce: ({ context }) => context.debounce,
+    validationTimeout: ({ context }) => context.timeout ?? 0,
+  },
+
+  guards: {
+    autoValidate: ({ context }) => context.autoValidate,
+    hasTimeout: ({ context }) => context.timeout !== undefined,
   },
 
   actions: {
@@ -74,6 +152,7 @@ export const formFieldMachine: FormFieldMachineType = setup({
     }),
 
     setValidating: assign({ validating: true }),
+    setValidated: assign({ validating: false }),
 
     reset: assign({
       value: '',
@@ -87,14 +166,21 @@ export const formFieldMachine: FormFieldMachineType = setup({
 }).createMachine({
   id: 'formField',
   initial: 'pristine',
-  context: {
-    value: '',
+  // Plain JavaScript callers may still start the actor without input
+  context: ({ input = {} }) => ({
+    value: input.value ?? '',
     error: undefined,
     touched: false,
     dirty: false,
     validating: false,
     focused: false,
-  },
+    validate: input.validate,
+    autoValidate: input.autoValidate ?? !!input.validate,
+    debounce: input.debounce ?? 0,
+    timeout: input.timeout,
+    unverifiedMessage: input.unverifiedMessage,
+    translate: input.translate,
+  }),
   states: {
     pristine: {
       on: {
@@ -102,21 +188,47 @@ export const formFieldMachine: FormFieldMachineType = setup({
           target: 'focused',
           actions: 'setFocused',
         },
-        SUBMIT_ATTEMPT: {
-          target: 'blurred',
-          actions: 'setTouched',
-        },
+        SUBMIT_ATTEMPT: [
+          {
+            guard: 'autoValidate',
+            target: 'validating',
+            actions: 'setTouched',
+          },
+          {
+            target: 'blurred',
+            actions: 'setTouched',
+          },
+        ],
       },
     },
     focused: {
       on: {
-        BLUR: {
-          target: 'blurred',
-          actions: 'setBlurred',
-        },
+        BLUR: [
+          {
+            guard: 'autoValidate',
+            target: 'validating',
+            actions: 'setBlurred',
+          },
+          {
+            target: 'blurred',
+            actions: 'setBlurred',
+          },
+        ],
         CHANGE: {
           actions: 'setValue',
         },
+        // Submitting with Enter keeps the focus, but the error should show
+        SUBMIT_ATTEMPT: [
+          {
+            guard: 'autoValidate',
+            target: 'validating',
+            actions: 'setTouched',
+          },
+          {
+            target: 'blurred',
+            actions: 'setTouched',
+          },
+        ],
       },
     },
     blurred: {
@@ -138,7 +250,79 @@ export const formFieldMachine: FormFieldMachineType = setup({
     },
     validating: {
       entry: 'setValidating',
+      exit: 'setValidated',
+      initial: 'debouncing',
+      states: {
+        debouncing: {
+          after: {
+            debounce: 'running',
+          },
+        },
+        running: {
+          invoke: {
+            src: 'validateField',
+            input: ({ context }) => ({
+              value: context.value,
+              validate: context.validate,
+              translate: context.translate,
+            }),
+            onDone: [
+              {
+                guard: ({ event }) => !!event.output,
+                target: '#formField.invalid',
+                actions: assign({ error: ({ event }) => ({ message: event.output }) }),
+              },
+              {
+                target: '#formField.valid',
+                actions: 'clearError',
+              },
+            ],
+            onError: '#formField.unverified',
+          },
+          after: {
+            validationTimeout: {
+              guard: 'hasTimeout',
+              target: '#formField.unverified',
+            },
+          },
+        },
+      },
       on: {
+        // Restarts the debounce and cancels the running check
+        VALIDATE: {
+          target: 'validating',
+          reenter: true,
+        },
+        FOCUS: {
+          target: 'focused',
+          actions: 'setFocused',
+        },
+        CHANGE: {
+          target: 'focused',
+          actions: ['setValue', 'setFocused'],
+        },
+        SET_ERROR: {
+          target: 'invalid',
+          actions: 'setError',
+        },
+        CLEAR_ERROR: {
+          target: 'valid',
+          actions: 'clearError',
+        },
+      },
+    },
+    unverified: {
+      entry: 'clearError',
+      on: {
+        FOCUS: {
+          target: 'focused',
+          actions: 'setFocused',
+        },
+        CHANGE: {
+          target: 'focused',
+          actions: ['setValue', 'setFocused'],
+        },
+        VALIDATE: 'validating',
         SET_ERROR: {
           target: 'invalid',
           actions: 'setError',
@@ -159,6 +343,14 @@ export const formFieldMachine: FormFieldMachineType = setup({
           target: 'focused',
           actions: ['setValue', 'setFocused'],
         },
+        VALIDATE: 'validating',
+        SET_ERROR: {
+          actions: 'setError',
+        },
+        CLEAR_ERROR: {
+          target: 'valid',
+          actions: 'clearError',
+        },
       },
     },
     valid: {
@@ -167,6 +359,7 @@ export const formFieldMachine: FormFieldMachineType = setup({
           target: 'focused',
           actions: 'setFocused',
         },
+        VALIDATE: 'validating',
         SET_ERROR: {
           target: 'invalid',
           actions: 'setError',
@@ -193,3 +386,11 @@ export const isBlurred = (snapshot: FormFieldMachineSnapshot): boolean => snapsh
 export const isValidating = (snapshot: FormFieldMachineSnapshot): boolean => snapshot.matches('validating')
 export const isInvalid = (snapshot: FormFieldMachineSnapshot): boolean => snapshot.matches('invalid')
 export const isValid = (snapshot: FormFieldMachineSnapshot): boolean => snapshot.matches('valid')
+export const isUnverified = (snapshot: FormFieldMachineSnapshot): boolean =>
+  snapshot.matches('unverified')
+
+/**
+ * Error message to display: only in the invalid state, i.e. after blur or a submit attempt
+ */
+export const getVisibleError = (snapshot: FormFieldMachineSnapshot): string | undefined =>
+  isInvalid(snapshot) ? snapshot.context.error?.message : undefined
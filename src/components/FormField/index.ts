@@ -2,11 +2,31 @@
  * FormField Molecule Export
  */
 
-// TODO: Implement FormFieldGroup, FormFieldRow
-// export { FormFieldGroup, FormFieldRow } from './FormFieldGroup'
+export {
+  FormFieldGroup,
+  type FormFieldGroupProps,
+  FormFieldRow,
+  type FormFieldRowProps,
+} from './FormFieldGroup'
 export { FieldMessages } from './FormFieldMessages'
 export type { FormFieldMUIProps as FormFieldProps, FormFieldMUIProps } from './FormFieldMUI'
 // Export MUI version as default
 export { FormFieldMUI as FormField, FormFieldMUI } from './FormFieldMUI'
-export type { FormFieldContext, FormFieldEvent } from './formfield.machine'
-export { formFieldMachine } from './formfield.machine'
+export type {
+  FormFieldContext,
+  FormFieldEvent,
+  FormFieldInput,
+  FormFieldMachineActor,
+  FormFieldMachineSnapshot,
+} from './formfield.machine'
+export {
+  formFieldMachine,
+  getVisibleError,
+  isBlurred,
+  isFocused,
+  isInvalid,
+  isPristine,
+  isUnverified,
+  isValid,
+  isValidating,
+} from './formfield.machine'
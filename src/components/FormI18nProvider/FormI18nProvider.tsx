@@ -0,0 +1,82 @@
+/**
+ * FormI18nProvider Component
+ *
+ * Selects the locale of the validation and component messages for the forms
+ * below it, with optional per-app overrides. Forms outside a provider use pt-BR.
+ *
+ * @example
+ * <FormI18nProvider locale="en" messages={{ required: 'Please fill in this field' }}>
+ *   <SignUpForm />
+ * </FormI18nProvider>
+ */
+
+import type React from 'react';
+import { createContext, useContext, useMemo, useRef } from 'react';
+import { getLocaleMessages, ptBRMessages } from '../../i18n/messages';
+import { createTranslator, defaultTranslate } from '../../i18n/translate';
+import type { MessageCatalog, MessageOverrides, Translate } from '../../i18n/types';
+
+export interface FormI18nContextValue {
+  locale: string;
+  messages: MessageCatalog;
+  translate: Translate;
+}
+
+const FormI18nContext = createContext<FormI18nContextValue>({
+  locale: 'pt-BR',
+  messages: ptBRMessages,
+  translate: defaultTranslate,
+});
+
+export interface FormI18nProviderProps {
+  /**
+   * `pt-BR`, `en` or `es`; other locales use the catalog of their language,
+   * or pt-BR, and are expected to come with `messages`
+   * @default 'pt-BR'
+   */
+  locale?: string;
+
+  /**
+   * Messages replacing those of the locale's catalog, or adding app codes
+   */
+  messages?: MessageOverrides;
+
+  children?: React.ReactNode;
+}
+
+const isSameMessages = (a?: MessageOverrides, b?: MessageOverrides): boolean => {
+  if (a === b) {
+    return true;
+  }
+  const aKeys = Object.keys(a ?? {});
+  return (
+    aKeys.length === Object.keys(b ?? {}).length && aKeys.every((key) => a?.[key] === b?.[key])
+  );
+};
+
+export const FormI18nProvider = ({
+  locale = 'pt-BR',
+  messages,
+  children,
+}: FormI18nProviderProps): React.ReactElement => {
+  // Inline overrides must not switch the translator (and revalidate the forms) on every render
+  const overridesRef = useRef(messages);
+  if (!isSameMessages(overridesRef.current, messages)) {
+    overridesRef.current = messages;
+  }
+  const overrides = overridesRef.current;
+
+  const value = useMemo(() => {
+    const catalog: MessageCatalog = { ...getLocaleMessages(locale), ...overrides };
+    return { locale, messages: catalog, translate: createTranslator(catalog) };
+  }, [locale, overrides]);
+
+  return <FormI18nContext.Provider value={value}>{children}</FormI18nContext.Provider>;
+};
+
+/**
+ * Locale, messages and translator of the nearest FormI18nProvider (pt-BR without one)
+ */
+export function useFormI18n(): FormI18nContextValue {
+  return useContext(FormI18nContext);
+}
@@ -0,0 +1,10 @@
+/**
+ * FormI18nProvider Component Exports
+ */
+
+export {
+  type FormI18nContextValue,
+  FormI18nProvider,
+  type FormI18nProviderProps,
+  useFormI18n,
+} from './FormI18nProvider';
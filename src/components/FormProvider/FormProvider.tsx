@@ -0,0 +1,60 @@
+/**
+ * FormProvider Component
+ *
+ * Shares a form created with useForm with nested components through context,
+ * so deeply nested sections can read and write fields without prop drilling.
+ *
+ * @example
+ * const form = useForm({ initialValues })
+ *
+ * <FormProvider form={form}>
+ *   <AddressSection />
+ * </FormProvider>
+ *
+ * // Anywhere below
+ * const { value, setValue } = useField<Onboarding, 'address.zip'>('address.zip')
+ */
+
+import type React from 'react';
+import { createContext, useContext } from 'react';
+import type { UseFormReturn } from '../../hooks/useForm';
+
+// Forms of any value type share the context; useFormContext restores the type
+const FormContext = createContext<unknown>(null);
+
+export interface FormProviderProps<T extends object, TOutput = T> {
+  form: UseFormReturn<T, TOutput>;
+  children?: React.ReactNode;
+}
+
+export const FormProvider = <T extends object, TOutput = T>({
+  form,
+  children,
+}: FormProviderProps<T, TOutput>): React.ReactElement => (
+  <FormContext.Provider value={form}>{children}</FormContext.Provider>
+);
+
+/**
+ * Form provided by the nearest FormProvider
+ * @param form - Form to use instead of the provided one (lets hooks accept an explicit form)
+ * @throws when no form is passed and there is no FormProvider above
+ */
+export function useFormContext<T extends object, TOutput = T>(
+  form?: UseFormReturn<T, TOutput>
+): UseFormReturn<T, TOutput> {
+  const resolved = useOptionalFormContext(form);
+  if (!resolved) {
+    throw new Error('useFormContext must be used within a FormProvider');
+  }
+  return resolved;
+}
+
+/**
+ * Form passed explicitly or provided by the nearest FormProvider, if any
+ */
+export function useOptionalFormContext<T extends object, TOutput = T>(
+  form?: UseFormReturn<T, TOutput>
+): UseFormReturn<T, TOutput> | undefined {
+  const contextForm = useContext(FormContext) as UseFormReturn<T, TOutput> | null;
+  return form ?? contextForm ?? undefined;
+}
@@ -0,0 +1,10 @@
+/**
+ * FormProvider Component Exports
+ */
+
+export {
+  FormProvider,
+  type FormProviderProps,
+  useFormContext,
+  useOptionalFormContext,
+} from './FormProvider';
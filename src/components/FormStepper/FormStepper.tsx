@@ -0,0 +1,143 @@
+/**
+ * FormStepper Component
+ *
+ * Level 2 Molecule - Progress of a multi-step form, built on MUI Stepper
+ *
+ * @example
+ * const form = useForm({ initialValues, validators, steps })
+ * <FormStepper form={form} />
+ * <Button onClick={form.nextStep}>Continuar</Button>
+ */
+
+import { Step, StepButton, StepLabel, Stepper, type StepperProps, Typography } from '@mui/material';
+import { useSelector } from '@xstate/react';
+import type React from 'react';
+import type { UseFormReturn } from '../../hooks/useForm';
+import {
+  getCurrentStepIndex,
+  getFormSteps,
+  getVisibleFieldError,
+  isStepCompleted,
+} from '../../machines/formMachine';
+import { isStepActive } from '../../machines/steps';
+import type { Path } from '../../types/path';
+import { isWithinPath } from '../../utils/path';
+import { useFormI18n } from '../FormI18nProvider';
+import { useOptionalFormContext } from '../FormProvider';
+
+export interface FormStepperProps<T extends object = Record<string, unknown>>
+  extends Omit<StepperProps, 'activeStep' | 'nonLinear' | 'children'> {
+  /**
+   * Form returned by useForm (defaults to the one from FormProvider)
+   */
+  form?: UseFormReturn<T, unknown>;
+
+  /**
+   * Let users click a step to go to it (earlier steps, or later ones once
+   * every step in between was completed)
+   * @default false
+   */
+  nonLinear?: boolean;
+
+  /**
+   * Keep steps that don't apply to the current values, shown as disabled
+   * @default false
+   */
+  showSkipped?: boolean;
+}
+
+interface StepView {
+  id: string;
+  index: number;
+  label: string;
+  completed: boolean;
+  skipped: boolean;
+  errorCount: number;
+}
+
+const isSameSteps = (a: StepView[], b: StepView[]): boolean =>
+  a.length === b.length &&
+  a.every((step, index) => {
+    const other = b[index];
+    return (
+      !!other &&
+      step.id === other.id &&
+      step.label === other.label &&
+      step.completed === other.completed &&
+      step.skipped === other.skipped &&
+      step.errorCount === other.errorCount
+    );
+  });
+
+/**
+ * FormStepper - shows the current step, completed steps and steps with errors
+ *
+ * A step shows its error state once it has visible errors (touched fields, or
+ * after a submit attempt), e.g. when a submit fails on fields of an earlier step.
+ */
+export const FormStepper = <T extends object = Record<string, unknown>>({
+  form: formProp,
+  nonLinear = false,
+  showSkipped = false,
+  ...stepperProps
+}: FormStepperProps<T>): React.ReactElement => {
+  const form = useOptionalFormContext(formProp);
+  const { translate } = useFormI18n();
+  const actorRef = form?.actorRef;
+
+  const currentStep = useSelector(actorRef, (snapshot) =>
+    snapshot ? getCurrentStepIndex(snapshot) : 0
+  );
+  const steps = useSelector(
+    actorRef,
+    (snapshot): StepView[] => {
+      if (!snapshot) {
+        return [];
+      }
+      const errorPaths = Object.keys(snapshot.context.errors).filter(
+        (path) => !!getVisibleFieldError(snapshot, path as Path<T>)
+      );
+      return getFormSteps(snapshot).map((step, index) => ({
+        id: step.id,
+        index,
+        label: step.label ?? step.id,
+        completed: isStepCompleted(snapshot, step.id),
+        skipped: !isStepActive(step, snapshot.context.values),
+        errorCount: errorPaths.filter((path) => isWithinPath(path, step.fields)).length,
+      }));
+    },
+    isSameSteps
+  );
+
+  const visibleSteps = showSkipped ? steps : steps.filter((step) => !step.skipped);
+  const activeStep = visibleSteps.findIndex((step) => step.index === currentStep);
+
+  return (
+    <Stepper {...stepperProps} activeStep={activeStep} nonLinear={nonLinear}>
+      {visibleSteps.map((step) => {
+        const hasErrors = step.errorCount > 0;
+        const optional = hasErrors ? (
+          <Typography variant="caption" color="error">
+            {step.errorCount === 1
+              ? translate({ code: 'errorCountOne' })
+              : translate({ code: 'errorCount', params: { count: step.errorCount } })}
+          </Typography>
+        ) : undefined;
+        return (
+          <Step key={step.id} completed={step.completed && !hasErrors} disabled={step.skipped}>
+            {/* StepButton passes `optional` down to its StepLabel */}
+            {nonLinear ? (
+              <StepButton optional={optional} onClick={() => form?.goToStep(step.index)}>
+                <StepLabel error={hasErrors}>{step.label}</StepLabel>
+              </StepButton>
+            ) : (
+              <StepLabel error={hasErrors} optional={optional}>
+                {step.label}
+              </StepLabel>
+            )}
+          </Step>
+        );
+      })}
+    </Stepper>
+  );
+};
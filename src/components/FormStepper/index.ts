@@ -0,0 +1,5 @@
+/**
+ * FormStepper Component Exports
+ */
+
+export { FormStepper, type FormStepperProps } from './FormStepper';
@@ -0,0 +1,212 @@
+/**
+ * MaskedInput Component
+ *
+ * Text field that applies an input mask while typing, keeping the caret in
+ * place on insert, delete and paste.
+ *
+ * Mask tokens: `9` digit, `A` letter, `*` letter or digit; anything else is a literal.
+ *
+ * @example
+ * <MaskedInput
+ *   mask="999.999.999-99"
+ *   label="CPF"
+ *   value={cpf}
+ *   onValueChange={({ masked, raw }) => setCpf(masked)}
+ * />
+ *
+ * @example
+ * // Dynamic mask based on the raw value typed so far
+ * <MaskedInput mask={(raw) => (raw.length > 11 ? '99.999.999/9999-99' : '999.999.999-999')} />
+ */
+
+import { TextField, type TextFieldProps } from '@mui/material';
+import type React from 'react';
+import {
+  type ChangeEvent,
+  forwardRef,
+  useCallback,
+  useImperativeHandle,
+  useLayoutEffect,
+  useRef,
+  useState,
+} from 'react';
+import { applyMask, isMaskToken, unmask } from '../../utils/formatters';
+
+export type MaskPattern = string | ((raw: string) => string);
+
+export interface MaskedValue {
+  /**
+   * Value as displayed, with mask literals
+   */
+  masked: string;
+
+  /**
+   * Characters typed by the user, without mask literals
+   */
+  raw: string;
+}
+
+export interface MaskedInputProps
+  extends Omit<TextFieldProps, 'error' | 'onChange' | 'value' | 'defaultValue' | 'ref'> {
+  /**
+   * Mask pattern, or a function returning the pattern for the current raw value
+   */
+  mask: MaskPattern;
+
+  /**
+   * Masked value (controlled)
+   */
+  value?: string;
+
+  /**
+   * Initial masked value (uncontrolled)
+   */
+  defaultValue?: string;
+
+  /**
+   * Error message to display
+   */
+  error?: string;
+
+  /**
+   * Callback when value changes; `event.target.value` holds the masked value
+   */
+  onChange?: (event: ChangeEvent<HTMLInputElement>) => void;
+
+  /**
+   * Callback with both the masked and raw values
+   */
+  onValueChange?: (value: MaskedValue) => void;
+}
+
+const stripLiterals = (value: string): string => value.replace(/[^0-9A-Za-z]/g, '');
+
+const resolveMask = (mask: MaskPattern, raw: string): string =>
+  typeof mask === 'function' ? mask(raw) : mask;
+
+/**
+ * Mask a value, returning the raw characters alongside
+ */
+export function maskValue(value: string, mask: MaskPattern): MaskedValue {
+  // A dynamic mask depends on the raw value, read with a first guess of the mask
+  const guess = resolveMask(mask, stripLiterals(value));
+  const pattern = resolveMask(mask, unmask(value, guess));
+  const raw = unmask(value, pattern);
+  return { masked: applyMask(raw, pattern), raw };
+}
+
+/**
+ * Caret position right after the `rawCount`-th raw character of a value
+ * masked with `pattern` (masked characters line up with the pattern)
+ */
+const caretAfterRaw = (pattern: string, rawCount: number): number => {
+  if (rawCount <= 0) {
+    return 0;
+  }
+  let seen = 0;
+  for (let index = 0; index < pattern.length; index += 1) {
+    if (isMaskToken(pattern[index] as string)) {
+      seen += 1;
+      if (seen === rawCount) {
+        return index + 1;
+      }
+    }
+  }
+  return pattern.length;
+};
+
+/**
+ * Whether `value` is `masked` with only mask literals deleted at `caret`
+ */
+const deletesLiteralsOnly = (
+  masked: string,
+  pattern: string,
+  value: string,
+  caret: number
+): boolean => {
+  const removed = masked.length - value.length;
+  return (
+    removed > 0 &&
+    value === masked.slice(0, caret) + masked.slice(caret + removed) &&
+    ![...pattern.slice(caret, caret + removed)].some(isMaskToken)
+  );
+};
+
+export const MaskedInput: React.ForwardRefExoticComponent<
+  MaskedInputProps & React.RefAttributes<HTMLInputElement>
+> = forwardRef<HTMLInputElement, MaskedInputProps>(
+  ({ mask, value, defaultValue, error, onChange, onValueChange, ...textFieldProps }, ref) => {
+    const inputRef = useRef<HTMLInputElement>(null);
+    const pendingCaret = useRef<number | null>(null);
+    const [uncontrolledValue, setUncontrolledValue] = useState(
+      () => maskValue(defaultValue ?? '', mask).masked
+    );
+    const isControlled = value !== undefined;
+    const displayValue = isControlled ? maskValue(value, mask).masked : uncontrolledValue;
+
+    useImperativeHandle(ref, () => inputRef.current as HTMLInputElement);
+
+    // Restore the caret once the new value has been rendered
+    useLayoutEffect(() => {
+      const input = inputRef.current;
+      if (pendingCaret.current !== null && input && input === document.activeElement) {
+        input.setSelectionRange(pendingCaret.current, pendingCaret.current);
+      }
+      pendingCaret.current = null;
+    });
+
+    const handleChange = useCallback(
+      (event: ChangeEvent<HTMLInputElement>) => {
+        const input = event.target;
+        const caret = input.selectionStart ?? input.value.length;
+        const inputType = (event.nativeEvent as InputEvent).inputType ?? '';
+
+        let { raw } = maskValue(input.value, mask);
+        let rawBeforeCaret = maskValue(input.value.slice(0, caret), mask).raw.length;
+
+        // Deleting a literal removes the raw character next to it instead
+        const previousRaw = maskValue(displayValue, mask).raw;
+        const previousPattern = resolveMask(mask, previousRaw);
+        if (deletesLiteralsOnly(displayValue, previousPattern, input.value, caret)) {
+          raw = previousRaw;
+          if (inputType === 'deleteContentBackward' && rawBeforeCaret > 0) {
+            raw = raw.slice(0, rawBeforeCaret - 1) + raw.slice(rawBeforeCaret);
+            rawBeforeCaret -= 1;
+          } else if (inputType === 'deleteContentForward') {
+            raw = raw.slice(0, rawBeforeCaret) + raw.slice(rawBeforeCaret + 1);
+          }
+        }
+
+        const next = maskValue(raw, mask);
+        const nextCaret = caretAfterRaw(
+          resolveMask(mask, next.raw),
+          Math.min(rawBeforeCaret, next.raw.length)
+        );
+
+        input.value = next.masked;
+        input.setSelectionRange(nextCaret, nextCaret);
+        pendingCaret.current = nextCaret;
+
+        if (!isControlled) {
+          setUncontrolledValue(next.masked);
+        }
+        onChange?.(event);
+        onValueChange?.(next);
+      },
+      [displayValue, isControlled, mask, onChange, onValueChange]
+    );
+
+    return (
+      <TextField
+        {...textFieldProps}
+        inputRef={inputRef}
+        value={displayValue}
+        onChange={handleChange}
+        error={!!error}
+        helperText={error || textFieldProps.helperText}
+      />
+    );
+  }
+);
+
+MaskedInput.displayName = 'MaskedInput';
@@ -0,0 +1,11 @@
+/**
+ * MaskedInput Component Exports
+ */
+
+export {
+  MaskedInput,
+  maskValue,
+  type MaskPattern,
+  type MaskedInputProps,
+  type MaskedValue,
+} from './MaskedInput';
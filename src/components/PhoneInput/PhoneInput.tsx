@@ -1,8 +1,10 @@
 /**
  * PhoneInput Component
  *
- * Brazilian phone input field with real-time masking and strict validation.
- * Uses @pleme/brazilian-utils for validation and formatting.
+ * Phone input field with real-time masking and strict validation. Brazilian
+ * numbers by default; pass `countries` for a country selector with per-country
+ * masks and E.164 output. Built on MaskedInput; uses @pleme/brazilian-utils for
+ * Brazilian validation.
  *
  * @example
  * // With React Hook Form
@@ -25,23 +27,36 @@
  *   onChange={(e) => setPhone(e.target.value)}
  *   error={phoneError}
  * />
+ *
+ * @example
+ * // International, storing E.164
+ * <PhoneInput
+ *   countries={['BR', 'PT', 'AR', 'US']}
+ *   onE164Change={(e164) => setPhone(e164)}
+ * />
  */
 
 import { Phone as PhoneIcon } from '@mui/icons-material'
+import { InputAdornment, MenuItem, Select, type SelectChangeEvent } from '@mui/material'
+import { getPhoneValidationError, validatePhoneStrict } from '@pleme/brazilian-utils'
+import type React from 'react'
+import { type ChangeEvent, forwardRef, useCallback, useMemo, useRef, useState } from 'react'
+import { z } from 'zod'
+import { defaultTranslate, schemaMessage } from '../../i18n/translate'
+import { isMaskToken } from '../../utils/formatters'
 import {
-  InputAdornment,
-  TextField,
-  type TextFieldProps,
-} from '@mui/material'
-import React, { forwardRef, useCallback, type ChangeEvent } from 'react'
-import {
-  phoneMask,
-  cleanPhoneDigits,
-  validatePhoneStrict,
-  getPhoneValidationError,
-} from '@pleme/brazilian-utils'
+  PHONE_COUNTRIES,
+  type PhoneCountry,
+  isValidE164,
+  isValidPhoneNumber,
+  toE164,
+} from '../../utils/phone'
+import { cleanDigits } from '../../utils/regex'
+import { useFormI18n } from '../FormI18nProvider'
+import { MaskedInput, type MaskedInputProps, type MaskedValue, maskValue } from '../MaskedInput'
 
-export interface PhoneInputProps extends Omit<TextFieldProps, 'error' | 'onChange'> {
+export interface PhoneInputProps
+  extends Omit<MaskedInputProps, 'mask' | 'onChange' | 'onValueChange'> {
   /**
    * Error message to display
    */
@@ -54,7 +69,8 @@ export interface PhoneInputProps extends Omit<TextFieldProps, 'error' | 'onChang
   showIcon?: boolean
 
   /**
-   * Maximum length of digits (without formatting)
+   * Maximum length of digits (without formatting), on top of the country's own maximum;
+   * `10` restricts Brazilian numbers to landlines
    * @default 11
    */
   maxDigits?: number
@@ -76,6 +92,84 @@ export interface PhoneInputProps extends Omit<TextFieldProps, 'error' | 'onChang
    * Callback when raw digits change (without formatting)
    */
   onDigitsChange?: (digits: string) => void
+
+  /**
+   * Selected country (controlled)
+   */
+  country?: PhoneCountry
+
+  /**
+   * Initially selected country (uncontrolled)
+   * @default 'BR'
+   */
+  defaultCountry?: PhoneCountry
+
+  /**
+   * Countries offered by the selector; the selector is shown with more than one
+   */
+  countries?: PhoneCountry[]
+
+  /**
+   * Callback when the selected country changes
+   */
+  onCountryChange?: (country: PhoneCountry) => void
+
+  /**
+   * Callback with the number normalized to E.164 (empty string when cleared)
+   */
+  onE164Change?: (e164: string) => void
+}
+
+/**
+ * Cut a mask after its `max`-th token, so that no further digit can be typed
+ */
+const limitMask = (mask: string, max: number): string => {
+  let tokens = 0
+  for (let index = 0; index < mask.length; index += 1) {
+    if (isMaskToken(mask.charAt(index))) {
+      tokens += 1
+      if (tokens === max) {
+        return mask.slice(0, index + 1)
+      }
+    }
+  }
+  return mask
+}
+
+interface CountrySelectProps {
+  value: PhoneCountry
+  countries: PhoneCountry[]
+  disabled?: boolean
+  onChange: (country: PhoneCountry) => void
+}
+
+/**
+ * Country calling code selector rendered as the input's start adornment
+ */
+const CountrySelect = ({ value, countries, disabled, onChange }: CountrySelectProps) => {
+  const { messages } = useFormI18n()
+  return (
+    <Select
+      variant="standard"
+      disableUnderline
+      value={value}
+      disabled={disabled}
+      onChange={(event: SelectChangeEvent<PhoneCountry>) =>
+        onChange(event.target.value as PhoneCountry)
+      }
+      renderValue={(country) =>
+        `${PHONE_COUNTRIES[country].flag} +${PHONE_COUNTRIES[country].dialCode}`
+      }
+      inputProps={{ 'aria-label': messages.country }}
+    >
+      {countries.map((country) => (
+        <MenuItem key={country} value={country}>
+          {PHONE_COUNTRIES[country].flag} {messages[`country${country}` as const]} +
+          {PHONE_COUNTRIES[country].dialCode}
+        </MenuItem>
+      ))}
+    </Select>
+  )
 }
 
 /**
@@ -83,8 +177,10 @@ export interface PhoneInputProps extends Omit<TextFieldProps, 'error' | 'onChang
  *
  * Features:
  * - Real-time formatting as user types: (XX) XXXXX-XXXX
+ * - Caret preserved on insert, delete and paste
  * - Strict Brazilian phone validation (area codes, mobile/landline patterns)
  * - Maximum 11 digits (mobile) or 10 digits (landline)
+ * - Optional country selector (BR, PT, AR, US) with E.164 output
  * - Phone icon adornment
  * - Works with React Hook Form via forwardRef
  */
@@ -99,59 +195,82 @@ export const PhoneInput: React.ForwardRefExoticComponent<
       strictValidation = true,
       onChange,
       onDigitsChange,
+      country: countryProp,
+      defaultCountry = 'BR',
+      countries = [],
+      onCountryChange,
+      onE164Change,
       value,
-      label = 'Telefone',
-      placeholder = '(11) 99999-9999',
+      defaultValue,
+      label,
+      placeholder,
       ...textFieldProps
     },
     ref
   ) => {
-    const handleChange = useCallback(
-      (event: ChangeEvent<HTMLInputElement>) => {
-        const rawValue = event.target.value
-        const digits = cleanPhoneDigits(rawValue)
-
-        // Limit to max digits
-        const limitedDigits = digits.slice(0, maxDigits)
-
-        // Apply mask
-        const maskedValue = phoneMask(limitedDigits)
-
-        // Create new event with masked value
-        const newEvent = {
-          ...event,
-          target: {
-            ...event.target,
-            value: maskedValue,
-          },
-        } as ChangeEvent<HTMLInputElement>
+    const { messages } = useFormI18n()
+    const [uncontrolledCountry, setUncontrolledCountry] = useState(defaultCountry)
+    const country = countryProp ?? uncontrolledCountry
+    // Digits typed so far, read while uncontrolled
+    const digitsRef = useRef(cleanDigits(defaultValue ?? ''))
+
+    const mask = useMemo(() => {
+      const countryMask = PHONE_COUNTRIES[country].mask
+      return (digits: string) => limitMask(countryMask(digits), maxDigits)
+    }, [country, maxDigits])
 
-        // Notify parent of change
-        onChange?.(newEvent)
+    const handleValueChange = useCallback(
+      ({ raw }: MaskedValue) => {
+        digitsRef.current = raw
+        onDigitsChange?.(raw)
+        onE164Change?.(toE164(raw, country))
+      },
+      [country, onDigitsChange, onE164Change]
+    )
 
-        // Also notify of raw digits if callback provided
-        onDigitsChange?.(limitedDigits)
+    const handleCountryChange = useCallback(
+      (next: PhoneCountry) => {
+        if (countryProp === undefined) {
+          setUncontrolledCountry(next)
+        }
+        onCountryChange?.(next)
+        // A controlled value may have been replaced since the last edit: use the displayed one
+        const digits = value === undefined ? digitsRef.current : maskValue(value, mask).raw
+        onE164Change?.(toE164(digits, next))
       },
-      [maxDigits, onChange, onDigitsChange]
+      [countryProp, value, mask, onCountryChange, onE164Change]
     )
 
+    const showCountrySelect = countries.length > 1
+
     return (
-      <TextField
+      <MaskedInput
         {...textFieldProps}
         ref={ref}
+        mask={mask}
         value={value}
-        onChange={handleChange}
-        label={label}
-        placeholder={placeholder}
-        error={!!error}
-        helperText={error || textFieldProps.helperText}
+        defaultValue={defaultValue}
+        onChange={onChange}
+        onValueChange={handleValueChange}
+        label={label ?? messages.phoneLabel}
+        placeholder={placeholder ?? PHONE_COUNTRIES[country].placeholder}
+        error={error}
         inputMode="tel"
         type="tel"
         slotProps={{
           ...textFieldProps.slotProps,
           input: {
             ...textFieldProps.slotProps?.input,
-            startAdornment: showIcon ? (
+            startAdornment: showCountrySelect ? (
+              <InputAdornment position="start">
+                <CountrySelect
+                  value={country}
+                  countries={countries}
+                  disabled={textFieldProps.disabled}
+                  onChange={handleCountryChange}
+                />
+              </InputAdornment>
+            ) : showIcon ? (
               <InputAdornment position="start">
                 <PhoneIcon color={error ? 'error' : 'action'} />
               </InputAdornment>
@@ -178,50 +297,107 @@ export const brazilianPhoneRefinement: readonly [
   (value: string) => string,
 ] = [
   (value: string): boolean => validatePhoneStrict(value),
-  (value: string): string => getPhoneValidationError(value) || 'Telefone inválido',
+  (value: string): string => getPhoneValidationError(value) || defaultTranslate({ code: 'phone' }),
 ] as const
 
+interface PhoneSchemaOptions {
+  required?: boolean
+  /**
+   * @default the `phoneRequired` message of the form's locale
+   */
+  requiredMessage?: string
+  /**
+   * Country whose national numbers are accepted
+   * @default 'BR'
+   */
+  country?: PhoneCountry
+}
+
 /**
- * Zod schema helper for Brazilian phone
+ * Zod schema helper for phone numbers (strict Brazilian validation by default)
  *
  * @example
  * import { z } from 'zod'
  * import { createPhoneSchema } from '@pleme/form-system'
  *
  * const schema = z.object({
- *   phone: createPhoneSchema()
+ *   phone: createPhoneSchema(),
+ *   phonePT: createPhoneSchema({ country: 'PT' }),
  * })
  */
-// Return type for createPhoneSchema - using unknown since we load zod dynamically
-type PhoneSchemaResult = unknown
+export function createPhoneSchema(
+  options?: PhoneSchemaOptions & { required?: true }
+): z.ZodString
+export function createPhoneSchema(
+  options: PhoneSchemaOptions & { required: false }
+): z.ZodOptional<z.ZodString>
+export function createPhoneSchema(
+  options?: PhoneSchemaOptions
+): z.ZodString | z.ZodOptional<z.ZodString>
+export function createPhoneSchema(
+  options?: PhoneSchemaOptions
+): z.ZodString | z.ZodOptional<z.ZodString> {
+  const {
+    required = true,
+    requiredMessage = schemaMessage({ code: 'phoneRequired' }),
+    country = 'BR',
+  } = options || {}
+  const isValid = (value: string): boolean =>
+    country === 'BR' ? validatePhoneStrict(value) : isValidPhoneNumber(value, country)
+  const phoneError = (value: unknown): string =>
+    (country === 'BR' && typeof value === 'string' && getPhoneValidationError(value)) ||
+    defaultTranslate({ code: 'phone' })
+  // The detailed Brazilian reasons are pt-BR only; forms show the `phone` message of their locale
+  const invalidPhone = {
+    error: (issue: { input: unknown }) => phoneError(issue.input),
+    params: { code: 'phone' },
+  }
 
-export const createPhoneSchema = (options?: {
-  required?: boolean
-  requiredMessage?: string
-}): PhoneSchemaResult => {
-  const { required = true, requiredMessage = 'Telefone é obrigatório' } = options || {}
+  if (required) {
+    return z
+      .string()
+      .refine((value) => value.length > 0, requiredMessage)
+      .refine((value) => isValid(value), invalidPhone)
+  }
 
-  // Import zod lazily to avoid bundling if not used
-  // eslint-disable-next-line @typescript-eslint/no-require-imports
-  const { z } = require('zod')
+  return z
+    .string()
+    .optional()
+    .refine((value) => !value || isValid(value), invalidPhone)
+}
 
-  const baseSchema = z.string()
+/**
+ * Zod schema helper for phone numbers stored in E.164 (e.g. from `onE164Change`)
+ *
+ * @example
+ * const schema = z.object({
+ *   phone: createE164PhoneSchema({ countries: ['BR', 'PT'] })
+ * })
+ */
+export function createE164PhoneSchema(options?: {
+  required?: boolean
+  requiredMessage?: string
+  countries?: PhoneCountry[]
+}): z.ZodString | z.ZodOptional<z.ZodString> {
+  const {
+    required = true,
+    requiredMessage = schemaMessage({ code: 'phoneRequired' }),
+    countries,
+  } = options || {}
+  const isValid = (value: string): boolean =>
+    value.startsWith('+55')
+      ? (!countries || countries.includes('BR')) && validatePhoneStrict(value.slice(3))
+      : isValidE164(value, countries)
 
   if (required) {
-    return baseSchema
-      .min(1, requiredMessage)
-      .refine(
-        (value: string) => validatePhoneStrict(value),
-        (value: string) => ({ message: getPhoneValidationError(value) || 'Telefone inválido' })
-      )
+    return z
+      .string()
+      .refine((value) => value.length > 0, requiredMessage)
+      .refine(isValid, schemaMessage({ code: 'phone' }))
   }
 
-  return baseSchema
+  return z
+    .string()
     .optional()
-    .refine(
-      (value: string | undefined) => !value || validatePhoneStrict(value),
-      (value: string | undefined) => ({
-        message: value ? getPhoneValidationError(value) || 'Telefone inválido' : undefined,
-      })
-    )
+    .refine((value) => !value || isValid(value), schemaMessage({ code: 'phone' }))
 }
@@ -2,4 +2,10 @@
  * PhoneInput Component Exports
  */
 
-export { PhoneInput, brazilianPhoneRefinement, createPhoneSchema, type PhoneInputProps } from './PhoneInput'
+export {
+  PhoneInput,
+  brazilianPhoneRefinement,
+  createE164PhoneSchema,
+  createPhoneSchema,
+  type PhoneInputProps,
+} from './PhoneInput'
@@ -0,0 +1,76 @@
+/**
+ * Field Hook
+ *
+ * Read and write a single field of the surrounding form, re-rendering only
+ * when that field changes
+ */
+
+import { useSelector } from '@xstate/react';
+import { useCallback } from 'react';
+import { useFormContext } from '../components/FormProvider';
+import {
+  getFieldError,
+  getFieldNotice,
+  getFieldValue,
+  getSubmitCount,
+  isFieldConditionallyRequired,
+  isFieldDisabled,
+  isFieldHidden,
+  isFieldTouched,
+  isFieldValidating,
+} from '../machines/formMachine';
+import type { Path, PathValue } from '../types/path';
+import type { ValidationNotice } from '../validators/registry';
+import type { FieldProps, UseFormReturn } from './useForm';
+
+export interface UseFieldReturn<V> {
+  value: V;
+  /**
+   * Current error, regardless of the display rules
+   */
+  error?: string;
+  /**
+   * Current warning or info, regardless of the display rules
+   */
+  notice?: ValidationNotice;
+  touched: boolean;
+  validating: boolean;
+  /**
+   * Props for a connected input, with the error display rules applied
+   */
+  fieldProps: FieldProps<V>;
+  setValue: (value: V) => void;
+}
+
+/**
+ * Hook for a single field of the form from FormProvider (or the one passed)
+ *
+ * @example
+ * const zip = useField<Onboarding, 'address.zip'>('address.zip')
+ * <FormField label="CEP" {...zip.fieldProps} />
+ */
+export function useField<T extends object = Record<string, unknown>, P extends Path<T> = Path<T>>(
+  name: P,
+  form?: UseFormReturn<T, unknown>
+): UseFieldReturn<PathValue<T, P>> {
+  const { actorRef, getFieldProps, setFieldValue } = useFormContext(form);
+
+  const value = useSelector(actorRef, (state) => getFieldValue(state, name));
+  const error = useSelector(actorRef, (state) => getFieldError(state, name));
+  const notice = useSelector(actorRef, (state) => getFieldNotice(state, name));
+  const touched = useSelector(actorRef, (state) => isFieldTouched(state, name));
+  const validating = useSelector(actorRef, (state) => isFieldValidating(state, name));
+  // Subscribed so that errors appear once a submit is attempted
+  useSelector(actorRef, (state) => getSubmitCount(state) > 0);
+  // Subscribed so that field conditions are reflected in fieldProps
+  useSelector(actorRef, (state) => isFieldHidden(state, name));
+  useSelector(actorRef, (state) => isFieldDisabled(state, name));
+  useSelector(actorRef, (state) => isFieldConditionallyRequired(state, name));
+
+  const setValue = useCallback(
+    (next: PathValue<T, P>) => setFieldValue(name, next),
+    [name, setFieldValue]
+  );
+
+  return { value, error, notice, touched, validating, fieldProps: getFieldProps(name), setValue };
+}
@@ -0,0 +1,82 @@
+/**
+ * Field Array Hook
+ *
+ * Manage repeatable groups (dependents, phone numbers, line items) inside a form
+ */
+
+import { useSelector } from '@xstate/react';
+import { useCallback, useMemo } from 'react';
+import { normalizeRowKeys } from '../machines/fieldArray';
+import type { ArrayPath, ArrayPathItem } from '../types/path';
+import { getIn } from '../utils/path';
+import type { UseFormReturn } from './useForm';
+
+export interface FieldArrayRow<V> {
+  /**
+   * Stable key for React lists; follows the row when it is moved
+   */
+  key: string;
+  index: number;
+  value: V;
+}
+
+export interface UseFieldArrayReturn<V> {
+  fields: FieldArrayRow<V>[];
+  append: (value: V) => void;
+  insert: (index: number, value: V) => void;
+  remove: (index: number) => void;
+  move: (from: number, to: number) => void;
+  swap: (indexA: number, indexB: number) => void;
+}
+
+/**
+ * Hook for the rows of an array field
+ *
+ * @example
+ * const { fields, append, remove } = useFieldArray(form, 'phones')
+ * fields.map(({ key, index }) => <PhoneInput key={key} {...} />)
+ */
+export function useFieldArray<T extends object, P extends ArrayPath<T>>(
+  form: UseFormReturn<T>,
+  name: P
+): UseFieldArrayReturn<ArrayPathItem<T, P>> {
+  type V = ArrayPathItem<T, P>;
+  const { actorRef } = form;
+
+  const items = useSelector(actorRef, (state) => getIn(state.context.values, name));
+  const keys = useSelector(actorRef, (state) => state.context.fieldArrayKeys[name]);
+
+  const fields = useMemo(() => {
+    const rows = (Array.isArray(items) ? items : []) as V[];
+    const rowKeys = normalizeRowKeys(keys, rows.length);
+    return rows.map((value, index) => ({ key: rowKeys[index] as string, index, value }));
+  }, [items, keys]);
+
+  const append = useCallback(
+    (value: V) => actorRef.send({ type: 'ARRAY_APPEND', field: name, value }),
+    [actorRef, name]
+  );
+
+  const insert = useCallback(
+    (index: number, value: V) => actorRef.send({ type: 'ARRAY_INSERT', field: name, index, value }),
+    [actorRef, name]
+  );
+
+  const remove = useCallback(
+    (index: number) => actorRef.send({ type: 'ARRAY_REMOVE', field: name, index }),
+    [actorRef, name]
+  );
+
+  const move = useCallback(
+    (from: number, to: number) => actorRef.send({ type: 'ARRAY_MOVE', field: name, from, to }),
+    [actorRef, name]
+  );
+
+  const swap = useCallback(
+    (indexA: number, indexB: number) =>
+      actorRef.send({ type: 'ARRAY_SWAP', field: name, indexA, indexB }),
+    [actorRef, name]
+  );
+
+  return { fields, append, insert, remove, move, swap };
+}
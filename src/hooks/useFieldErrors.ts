@@ -0,0 +1,50 @@
+/**
+ * Field Errors Hook
+ *
+ * Visible errors of a set of fields, e.g. to badge a section or tab
+ */
+
+import { useSelector } from '@xstate/react';
+import { useOptionalFormContext } from '../components/FormProvider';
+import { type FormErrors, getVisibleFieldError } from '../machines/formMachine';
+import type { Path } from '../types/path';
+import { isWithinPath } from '../utils/path';
+import type { UseFormReturn } from './useForm';
+
+const isSameErrors = (a: Record<string, string>, b: Record<string, string>): boolean => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every((key) => a[key] === b[key]);
+};
+
+/**
+ * Hook returning the visible errors (touched or after a submit attempt) at or
+ * below the given field paths, from the form passed or the FormProvider
+ *
+ * Returns no errors when there is no form.
+ * @example
+ * const errors = useFieldErrors(['address', 'phones'])
+ * const count = Object.keys(errors).length
+ */
+export function useFieldErrors<T extends object = Record<string, unknown>>(
+  fields: readonly Path<T>[],
+  form?: UseFormReturn<T, unknown>
+): FormErrors<T> {
+  const actorRef = useOptionalFormContext(form)?.actorRef;
+  return useSelector(
+    actorRef,
+    (snapshot) => {
+      const errors: Record<string, string> = {};
+      if (!snapshot) {
+        return errors;
+      }
+      for (const path of Object.keys(snapshot.context.errors)) {
+        const error = isWithinPath(path, fields) && getVisibleFieldError(snapshot, path as Path<T>);
+        if (error) {
+          errors[path] = error;
+        }
+      }
+      return errors;
+    },
+    isSameErrors
+  ) as FormErrors<T>;
+}
@@ -4,108 +4,303 @@
  * Type-safe form management with validation
  */
 
-import { useMachine } from '@xstate/react'
-import { useCallback, useMemo } from 'react'
-import { cleanDigits, isValidEmail } from '../utils/regex'
+import { useActorRef, useSelector } from '@xstate/react'
+import { type ChangeEvent, useCallback, useEffect, useMemo, useRef } from 'react'
+import { waitFor } from 'xstate'
+import { useFormI18n } from '../components/FormI18nProvider'
+import type { Translate } from '../i18n/types'
 import {
   createFormMachine,
+  type FormActorRef,
+  type FormErrors,
+  type FormMachineOptions,
+  type FormNotices,
+  type FormValidator,
   getFieldError,
   getFormErrors,
+  getFormNotices,
+  getFormOutput,
+  getCurrentStepIndex,
+  getFormError,
   getFormValues,
+  getSubmitCount,
+  getSubmitError,
+  getVisibleFieldError,
+  getVisibleFieldNotice,
+  isFieldConditionallyRequired,
+  isFieldDisabled,
+  isFieldHidden,
+  isFieldReadOnly,
+  isFieldValidating,
   isFormDirty,
   isFormSubmitting,
   isFormValid,
+  type TouchedFields,
 } from '../machines/formMachine'
+import type { z } from 'zod'
+import type { FormResolver } from '../resolvers/types'
+import { defaultSubmitErrorMapper } from '../submitErrors/mappers'
+import type { SubmitErrorMapper } from '../submitErrors/types'
+import { isSchemaFieldRequired } from '../resolvers/zod'
+import type { Path, PathValue } from '../types/path'
+import { getIn, toFieldId } from '../utils/path'
+import { isFieldRequired, type ValidationNotice } from '../validators/registry'
 
-type FormErrors<T> = Partial<Record<keyof T, string>>
-type TouchedFields<T> = Partial<Record<keyof T, boolean>>
-type FormValidator<T> = (values: T) => FormErrors<T> | Promise<FormErrors<T>>
-
-export interface UseFormOptions<T> {
+export interface UseFormOptions<T, TOutput = T> extends Omit<FormMachineOptions<T>, 'translate'> {
   initialValues: T
   validate?: FormValidator<T>
   validateOnChange?: boolean
   validateOnBlur?: boolean
-  onSubmit?: (values: T) => void | Promise<void>
+  /**
+   * Zod schema validating the form; onSubmit receives its parsed output
+   */
+  schema?: z.ZodType<TOutput, T>
+  resolver?: FormResolver<T, TOutput>
+  onSubmit?: (values: TOutput) => void | Promise<void>
+  /**
+   * Turns what onSubmit throws into field errors and a form-level `submitError`
+   * @default defaultSubmitErrorMapper (problem details, GraphQL errors, issue arrays)
+   */
+  mapSubmitError?: SubmitErrorMapper<T>
+  /**
+   * Prefix for the field ids generated by getFieldProps (for pages with several forms)
+   */
+  id?: string
+}
+
+/**
+ * Props wiring a field to the form (see getFieldProps)
+ */
+export interface FieldProps<V = unknown> {
+  id: string
+  name: string
+  value: V
+  /**
+   * Accepts an input change event or the new value
+   */
+  onChange: (eventOrValue: ChangeEvent<HTMLInputElement | HTMLTextAreaElement> | V) => void
+  onBlur: () => void
+  /**
+   * Error message, only once the field was touched or a submit was attempted
+   */
+  error?: string
+  /**
+   * Warning or info from the field rules, shown under the same conditions
+   * as errors and only while the field has no error
+   */
+  notice?: ValidationNotice
+  required: boolean
+  /**
+   * From the field's disabledWhen condition
+   */
+  disabled: boolean
+  /**
+   * From the field's visibleWhen condition
+   */
+  hidden: boolean
+  /**
+   * Computed field that rejects changes
+   */
+  readOnly: boolean
 }
 
-export interface UseFormReturn<T> {
+/**
+ * Outcome of handleSubmit, settled after validation and onSubmit complete
+ */
+export type SubmitResult<T, TOutput = T> =
+  | { ok: true; values: TOutput }
+  | { ok: false; errors: FormErrors<T>; error?: unknown }
+
+/**
+ * Form returned by useForm
+ *
+ * State fields (`values`, `errors`, `notices`, `touched`, `isSubmitting`,
+ * `submitCount`, `isValid`, `isDirty`, `currentStep`, `submitError`,
+ * `formError`) are read
+ * lazily from the latest snapshot: the component calling useForm only
+ * re-renders when a field it has read changes. Fields subscribe on their own
+ * (useField, useWatch, connected FormField), so typing does not re-render the
+ * whole form.
+ */
+export interface UseFormReturn<T extends object, TOutput = T> {
   values: T
   errors: FormErrors<T>
+  /**
+   * Warnings and info from the field rules; they don't block submission
+   */
+  notices: FormNotices<T>
   touched: TouchedFields<T>
   isSubmitting: boolean
+  /**
+   * Number of submit attempts since the last reset
+   */
+  submitCount: number
   isValid: boolean
   isDirty: boolean
-  handleChange: <K extends keyof T>(field: K) => (value: T[K]) => void
-  handleBlur: <K extends keyof T>(field: K) => () => void
-  setFieldValue: <K extends keyof T>(field: K, value: T[K]) => void
-  setFieldError: <K extends keyof T>(field: K, error: string) => void
+  /**
+   * Index of the current step (multi-step forms)
+   */
+  currentStep: number
+  /**
+   * Form-level message of the last failed submission, cleared on the next submit
+   */
+  submitError?: string
+  /**
+   * Error on the values as a whole from the last validation (e.g. a schema
+   * refine on the root object); blocks submission like field errors
+   */
+  formError?: string
+  handleChange: <P extends Path<T>>(field: P) => (value: PathValue<T, P>) => void
+  handleBlur: <P extends Path<T>>(field: P) => () => void
+  setFieldValue: <P extends Path<T>>(field: P, value: PathValue<T, P>) => void
+  setFieldError: <P extends Path<T>>(field: P, error: string) => void
   setErrors: (errors: FormErrors<T>) => void
   validateForm: () => Promise<boolean>
-  validateField: <K extends keyof T>(field: K) => Promise<boolean>
-  handleSubmit: (e?: React.FormEvent) => Promise<void>
+  validateField: <P extends Path<T>>(field: P) => Promise<boolean>
+  handleSubmit: (e?: React.FormEvent) => Promise<SubmitResult<T, TOutput>>
   reset: () => void
-  resetField: <K extends keyof T>(field: K) => void
+  resetField: <P extends Path<T>>(field: P) => void
+  /**
+   * Validate the current step and move to the next one that applies
+   * @returns whether the step changed
+   */
+  nextStep: () => Promise<boolean>
+  /**
+   * Move to the previous step that applies, without validation
+   */
+  previousStep: () => void
+  /**
+   * Move to a step by id or index: earlier steps directly, later ones once the
+   * current step is valid and every step in between was completed
+   * @returns whether the step changed
+   */
+  goToStep: (step: string | number) => Promise<boolean>
+  /**
+   * Props connecting a field (e.g. FormField) to the form
+   * @example
+   * <FormField label="Email" {...form.getFieldProps('email')} />
+   */
+  getFieldProps: <P extends Path<T>>(field: P) => FieldProps<PathValue<T, P>>
+  /**
+   * Underlying form actor (used by hooks such as useFieldArray)
+   */
+  actorRef: FormActorRef<T>
 }
 
 /**
  * Hook for type-safe form management
  */
-export function useForm<T extends Record<string, unknown>>(
-  options: UseFormOptions<T>
-): UseFormReturn<T> {
+export function useForm<T extends object, TOutput = T>(
+  options: UseFormOptions<T, TOutput>
+): UseFormReturn<T, TOutput> {
   const {
     initialValues,
     validate,
     validateOnChange = true,
     validateOnBlur = true,
     onSubmit,
+    mapSubmitError = defaultSubmitErrorMapper,
+    debounce,
+    fieldDebounce,
+    validators: fieldValidators,
+    schema,
+    resolver,
+    steps,
+    conditions,
+    omitHiddenValues,
+    computed,
+    id: formId,
   } = options
 
+  // Messages follow the locale of FormI18nProvider without recreating the machine
+  const { translate } = useFormI18n()
+  const translateRef = useRef(translate)
+  const translateMessage = useCallback<Translate>((message) => translateRef.current(message), [])
+
   const machine = useMemo(
-    () => createFormMachine(initialValues, validate, validateOnChange, validateOnBlur),
-    [initialValues, validate, validateOnChange, validateOnBlur]
+    () =>
+      createFormMachine(initialValues, validate, validateOnChange, validateOnBlur, {
+        debounce,
+        fieldDebounce,
+        validators: fieldValidators,
+        schema,
+        resolver,
+        steps,
+        conditions,
+        omitHiddenValues,
+        computed,
+        translate: translateMessage,
+      }),
+    [
+      initialValues,
+      validate,
+      validateOnChange,
+      validateOnBlur,
+      debounce,
+      fieldDebounce,
+      fieldValidators,
+      schema,
+      resolver,
+      steps,
+      conditions,
+      omitHiddenValues,
+      computed,
+      translateMessage,
+    ]
   )
 
-  const [state, send] = useMachine(machine)
+  const actorRef = useActorRef(machine)
+  const { send } = actorRef
 
-  // Computed values from state
-  const values = getFormValues(state)
-  const errors = getFormErrors(state)
-  const touched = state.context.touched
-  const isSubmitting = isFormSubmitting(state)
-  const isValid = isFormValid(state)
-  const isDirty = isFormDirty(state)
+  // Messages already reported were translated for the previous locale: revalidate their fields
+  useEffect(() => {
+    if (translateRef.current === translate) {
+      return
+    }
+    translateRef.current = translate
+    const { errors, notices, submitErrorFields } = actorRef.getSnapshot().context
+    const fields = new Set([...Object.keys(errors), ...Object.keys(notices)])
+    for (const field of fields) {
+      if (!submitErrorFields.includes(field)) {
+        actorRef.send({ type: 'VALIDATE_FIELD', field: field as Path<T> })
+      }
+    }
+  }, [actorRef, translate])
+
+  // Re-render only when a state field read by this component changes
+  const trackedState = useRef(new Set<FormStateKey>())
+  useSelector(
+    actorRef,
+    (snapshot) => snapshot,
+    (previous, next) =>
+      Array.from(trackedState.current).every((key) =>
+        Object.is(formStateSelectors[key](previous), formStateSelectors[key](next))
+      )
+  )
 
   // Validate entire form
   const validateForm = useCallback(async (): Promise<boolean> => {
-    send({ type: 'VALIDATE_FORM' })
-    // Wait for validation to complete
-    return new Promise((resolve) => {
-      setTimeout(() => {
-        resolve(isFormValid(state))
-      }, 100)
-    })
-  }, [send, state])
+    actorRef.send({ type: 'VALIDATE_FORM' })
+    // Wait for the machine to leave the validating state
+    const snapshot = await waitFor(actorRef, (current) => !current.matches('validatingForm'))
+    return isFormValid(snapshot)
+  }, [actorRef])
 
   // Validate single field
   const validateField = useCallback(
-    async <K extends keyof T>(field: K): Promise<boolean> => {
-      send({ type: 'VALIDATE_FIELD', field })
-      // Wait for validation to complete
-      return new Promise((resolve) => {
-        setTimeout(() => {
-          resolve(!getFieldError(state, field))
-        }, 100)
-      })
+    async <P extends Path<T>>(field: P): Promise<boolean> => {
+      actorRef.send({ type: 'VALIDATE_FIELD', field })
+      // Wait for the field validator to settle
+      const snapshot = await waitFor(actorRef, (current) => !isFieldValidating(current, field))
+      return !getFieldError(snapshot, field)
     },
-    [send, state]
+    [actorRef]
   )
 
   // Handle field change
   const handleChange = useCallback(
-    <K extends keyof T>(field: K) => {
-      return (value: T[K]) => {
+    <P extends Path<T>>(field: P) => {
+      return (value: PathValue<T, P>) => {
         send({ type: 'CHANGE_FIELD', field, value })
       }
     },
@@ -114,7 +309,7 @@ export function useForm<T extends Record<string, unknown>>(
 
   // Handle field blur
   const handleBlur = useCallback(
-    <K extends keyof T>(field: K) => {
+    <P extends Path<T>>(field: P) => {
       return () => {
         send({ type: 'BLUR_FIELD', field })
       }
@@ -124,7 +319,7 @@ export function useForm<T extends Record<string, unknown>>(
 
   // Set field value programmatically
   const setFieldValue = useCallback(
-    <K extends keyof T>(field: K, value: T[K]) => {
+    <P extends Path<T>>(field: P, value: PathValue<T, P>) => {
       send({ type: 'SET_FIELD_VALUE', field, value })
     },
     [send]
@@ -132,33 +327,69 @@ export function useForm<T extends Record<string, unknown>>(
 
   // Set field error
   const setFieldError = useCallback(
-    <K extends keyof T>(field: K, error: string) => {
+    <P extends Path<T>>(field: P, error: string) => {
       send({ type: 'SET_FIELD_ERROR', field, error })
     },
     [send]
   )
 
   // Handle form submission
-  const handleSubmit = useCallback(
-    async (e?: React.FormEvent) => {
-      if (e) {
-        e.preventDefault()
-      }
+  const submit = useCallback(
+    async (): Promise<SubmitResult<T, TOutput>> => {
+      actorRef.send({ type: 'SUBMIT' })
 
-      send({ type: 'SUBMIT' })
+      // Wait for submit validation to complete
+      const snapshot = await waitFor(actorRef, (current) => !current.matches('submitting'))
+      if (!snapshot.matches('submitValid')) {
+        return { ok: false, errors: getFormErrors(snapshot) }
+      }
 
-      // Wait for validation to complete
-      if (state.value === 'submitValid' && onSubmit) {
+      // Resolver output (parsed/transformed values) when a schema is used
+      const submittedValues = getFormOutput(snapshot) as TOutput
+      try {
+        await onSubmit?.(submittedValues)
+        actorRef.send({ type: 'SUBMIT_SUCCESS' })
+        return { ok: true, values: submittedValues }
+      } catch (error) {
+        let mapping: ReturnType<SubmitErrorMapper<T>>
         try {
-          await onSubmit(values)
-          send({ type: 'SUBMIT_SUCCESS' })
-        } catch (error) {
-          console.error('Form submission error:', error)
-          send({ type: 'SUBMIT_FAILURE', error: error as Error })
+          mapping = mapSubmitError(error)
+        } catch {
+          // A failing mapper must not leave the form submitting: show the generic message
+          mapping = undefined
         }
+        actorRef.send({
+          type: 'SUBMIT_FAILURE',
+          error: error instanceof Error ? error : new Error(String(error)),
+          errors: mapping?.errors,
+          message:
+            mapping?.message ??
+            (mapping && Object.keys(mapping.errors).length > 0
+              ? undefined
+              : translateMessage({ code: 'submitFailed' })),
+        })
+        return { ok: false, errors: getFormErrors(actorRef.getSnapshot()), error }
       }
     },
-    [send, state.value, values, onSubmit]
+    [actorRef, mapSubmitError, onSubmit, translateMessage]
+  )
+
+  // A submission in progress settles every handleSubmit call made meanwhile
+  // (double clicks, Enter while onSubmit is pending) instead of running onSubmit again
+  const pendingSubmit = useRef<Promise<SubmitResult<T, TOutput>> | null>(null)
+  const handleSubmit = useCallback(
+    (e?: React.FormEvent): Promise<SubmitResult<T, TOutput>> => {
+      if (e) {
+        e.preventDefault()
+      }
+      if (!pendingSubmit.current) {
+        pendingSubmit.current = submit().finally(() => {
+          pendingSubmit.current = null
+        })
+      }
+      return pendingSubmit.current
+    },
+    [submit]
   )
 
   // Reset form
@@ -168,68 +399,186 @@ export function useForm<T extends Record<string, unknown>>(
 
   // Reset single field
   const resetField = useCallback(
-    <K extends keyof T>(field: K) => {
+    <P extends Path<T>>(field: P) => {
       send({ type: 'RESET_FIELD', field })
     },
     [send]
   )
 
-  return {
-    values,
-    errors,
-    touched,
-    isSubmitting,
-    isValid,
-    isDirty,
-    handleChange,
+  // Send a step event and wait for its validation to settle
+  const changeStep = useCallback(
+    async (event: { type: 'NEXT' } | { type: 'GOTO'; step: string | number }) => {
+      const previous = getCurrentStepIndex(actorRef.getSnapshot())
+      actorRef.send(event)
+      const snapshot = await waitFor(actorRef, (current) => !current.matches('validatingStep'))
+      return getCurrentStepIndex(snapshot) !== previous
+    },
+    [actorRef]
+  )
+
+  const nextStep = useCallback(() => changeStep({ type: 'NEXT' }), [changeStep])
+
+  const previousStep = useCallback(() => {
+    send({ type: 'BACK' })
+  }, [send])
+
+  const goToStep = useCallback(
+    (step: string | number) => changeStep({ type: 'GOTO', step }),
+    [changeStep]
+  )
+
+  // Props for connected fields, read from the latest snapshot so that
+  // components subscribed to a single field (useField) never see stale values
+  const getFieldProps = useCallback(
+    <P extends Path<T>>(field: P): FieldProps<PathValue<T, P>> => {
+      const snapshot = actorRef.getSnapshot()
+      const { context } = snapshot
+      return {
+        id: toFieldId(field, formId),
+        name: field,
+        value: getIn(context.values, field) as PathValue<T, P>,
+        onChange: (eventOrValue) => {
+          const value = isChangeEvent(eventOrValue) ? readEventValue(eventOrValue) : eventOrValue
+          actorRef.send({ type: 'CHANGE_FIELD', field, value })
+        },
+        onBlur: () => actorRef.send({ type: 'BLUR_FIELD', field }),
+        error: getVisibleFieldError(snapshot, field),
+        notice: getVisibleFieldNotice(snapshot, field),
+        required:
+          isFieldConditionallyRequired(snapshot, field) ||
+          (fieldValidators ? isFieldRequired(fieldValidators, field) : false) ||
+          (schema ? isSchemaFieldRequired(schema, field) : false),
+        disabled: isFieldDisabled(snapshot, field),
+        hidden: isFieldHidden(snapshot, field),
+        readOnly: isFieldReadOnly(snapshot, field),
+      }
+    },
+    [actorRef, fieldValidators, formId, schema]
+  )
+
+  // Set form errors
+  const setErrors = useCallback(
+    (errors: FormErrors<T>) => send({ type: 'SET_ERRORS', errors }),
+    [send]
+  )
+
+  // Stable across renders, so FormProvider consumers are not re-rendered by the host
+  return useMemo(() => {
+    const read = <K extends FormStateKey>(key: K) => {
+      trackedState.current.add(key)
+      return formStateSelectors[key](actorRef.getSnapshot()) as FormState<T>[K]
+    }
+    return {
+      get values() {
+        return read('values')
+      },
+      get errors() {
+        return read('errors')
+      },
+      get notices() {
+        return read('notices')
+      },
+      get touched() {
+        return read('touched')
+      },
+      get isSubmitting() {
+        return read('isSubmitting')
+      },
+      get submitCount() {
+        return read('submitCount')
+      },
+      get isValid() {
+        return read('isValid')
+      },
+      get isDirty() {
+        return read('isDirty')
+      },
+      get currentStep() {
+        return read('currentStep')
+      },
+      get submitError() {
+        return read('submitError')
+      },
+      get formError() {
+        return read('formError')
+      },
+      handleChange,
+      handleBlur,
+      setFieldValue,
+      setFieldError,
+      setErrors,
+      validateForm,
+      validateField,
+      handleSubmit,
+      reset,
+      resetField,
+      nextStep,
+      previousStep,
+      goToStep,
+      getFieldProps,
+      actorRef,
+    }
+  }, [
+    actorRef,
+    getFieldProps,
+    goToStep,
     handleBlur,
-    setFieldValue,
-    setFieldError,
-    setErrors: (errors: FormErrors<T>) => send({ type: 'SET_ERRORS', errors }),
-    validateForm,
-    validateField,
+    handleChange,
     handleSubmit,
+    nextStep,
+    previousStep,
     reset,
     resetField,
-  }
+    setErrors,
+    setFieldError,
+    setFieldValue,
+    validateField,
+    validateForm,
+  ])
 }
 
-/**
- * Create field-level validation helpers
- */
-export const validators = {
-  required:
-    (message = 'Campo obrigatório') =>
-    <T>(value: T): string | undefined =>
-      !value ? message : undefined,
-
-  email:
-    (message = 'Email inválido') =>
-    (value: string): string | undefined =>
-      !isValidEmail(value) ? message : undefined,
-
-  minLength: (min: number, message?: string) => (value: string): string | undefined =>
-    value.length < min ? message || `Mínimo ${min} caracteres` : undefined,
-
-  maxLength: (max: number, message?: string) => (value: string): string | undefined =>
-    value.length > max ? message || `Máximo ${max} caracteres` : undefined,
-
-  pattern:
-    (regex: RegExp, message = 'Formato inválido') =>
-    (value: string): string | undefined =>
-      !regex.test(value) ? message : undefined,
-
-  cpf:
-    (message = 'CPF inválido') =>
-    (value: string): string | undefined => {
-      const cleaned = cleanDigits(value)
-      return cleaned.length !== 11 ? message : undefined
-    },
+interface FormState<T> {
+  values: T
+  errors: FormErrors<T>
+  notices: FormNotices<T>
+  touched: TouchedFields<T>
+  isSubmitting: boolean
+  submitCount: number
+  isValid: boolean
+  isDirty: boolean
+  currentStep: number
+  submitError: string | undefined
+  formError: string | undefined
+}
 
-  phone:
-    (message = 'Telefone inválido') =>
-    (value: string): string | undefined => {
-      const cleaned = cleanDigits(value)
-      return cleaned.length < 10 || cleaned.length > 11 ? message : undefined
-    },
+type FormStateKey = keyof FormState<unknown>
+
+type FormSnapshot<T> = Parameters<typeof getFormValues<T>>[0]
+
+const formStateSelectors: {
+  [K in FormStateKey]: <T>(snapshot: FormSnapshot<T>) => FormState<T>[K]
+} = {
+  values: getFormValues,
+  errors: getFormErrors,
+  notices: getFormNotices,
+  touched: (snapshot) => snapshot.context.touched,
+  isSubmitting: isFormSubmitting,
+  submitCount: getSubmitCount,
+  isValid: isFormValid,
+  isDirty: isFormDirty,
+  currentStep: getCurrentStepIndex,
+  submitError: getSubmitError,
+  formError: getFormError,
+}
+
+const isChangeEvent = (
+  value: unknown
+): value is ChangeEvent<HTMLInputElement | HTMLTextAreaElement> =>
+  typeof value === 'object' && value !== null && 'nativeEvent' in value && 'target' in value
+
+const readEventValue = (event: ChangeEvent<HTMLInputElement | HTMLTextAreaElement>): unknown => {
+  const { target } = event
+  return target instanceof HTMLInputElement && target.type === 'checkbox'
+    ? target.checked
+    : target.value
 }
@@ -0,0 +1,219 @@
+/**
+ * Form Draft Hook
+ *
+ * Saves the values of a form while the user fills it and offers to restore
+ * them on the next visit (e.g. after a refresh mid-form)
+ *
+ * @example
+ * const form = useForm({ initialValues })
+ * const draft = useFormDraft({ key: 'onboarding', version: 2, exclude: ['cpf'] }, form)
+ *
+ * <FormDraftPrompt draft={draft} />
+ */
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { useFormContext } from '../components/FormProvider';
+import { getFormValues, isFormDirty } from '../machines/formMachine';
+import { mergeDraftValues, parseDraft, serializeDraft } from '../persistence/draft';
+import { localStorageAdapter } from '../persistence/storage';
+import type { DraftOptions, FormDraft } from '../persistence/types';
+import type { UseFormReturn } from './useForm';
+
+export interface UseFormDraftOptions<T> extends DraftOptions<T> {
+  /**
+   * Minimum interval (ms) between two saves
+   * @default 1000
+   */
+  throttle?: number;
+
+  /**
+   * Restore a saved draft without asking
+   * @default false
+   */
+  autoRestore?: boolean;
+
+  /**
+   * Called when the storage fails (quota, private mode...); the form keeps working
+   */
+  onError?: (error: unknown) => void;
+}
+
+/**
+ * - `loading`: reading the stored draft
+ * - `pending`: a draft was found, waiting for restore() or discard()
+ * - `ready`: changes are being saved
+ */
+export type FormDraftStatus = 'loading' | 'pending' | 'ready';
+
+export interface UseFormDraftReturn {
+  status: FormDraftStatus;
+
+  /**
+   * When the pending draft was saved
+   */
+  savedAt?: Date;
+
+  /**
+   * Load the pending draft into the form
+   */
+  restore: () => void;
+
+  /**
+   * Drop the pending draft and start saving the current values
+   */
+  discard: () => Promise<void>;
+
+  /**
+   * Remove the stored draft (done automatically after a successful submit)
+   */
+  clear: () => Promise<void>;
+}
+
+const defaultStorage = localStorageAdapter();
+const getStorage = <T>(options: DraftOptions<T>) => options.storage ?? defaultStorage;
+
+/**
+ * Hook persisting the form values as a draft
+ *
+ * Values are saved at most once per `throttle` ms, and when the page is
+ * hidden or the component unmounts. A form back to its initial values
+ * removes the draft.
+ */
+export function useFormDraft<T extends object>(
+  options: UseFormDraftOptions<T>,
+  form?: UseFormReturn<T, unknown>
+): UseFormDraftReturn {
+  const { actorRef } = useFormContext(form);
+  const { key, throttle = 1000 } = options;
+  const [status, setStatus] = useState<FormDraftStatus>('loading');
+  const [draft, setDraft] = useState<FormDraft<T>>();
+
+  // Read by the callbacks below, so inline options don't restart the effects
+  const optionsRef = useRef(options);
+  optionsRef.current = options;
+
+  // Storage failures must never break the form
+  const reportError = useCallback((error: unknown) => optionsRef.current.onError?.(error), []);
+
+  const restoreValues = useCallback(
+    (values: T) => {
+      const current = getFormValues(actorRef.getSnapshot());
+      actorRef.send({
+        type: 'RESTORE_VALUES',
+        values: mergeDraftValues(current, values, optionsRef.current.exclude),
+      });
+    },
+    [actorRef]
+  );
+
+  const save = useCallback(async () => {
+    const storage = getStorage(optionsRef.current);
+    const snapshot = actorRef.getSnapshot();
+    if (isFormDirty(snapshot)) {
+      await storage.setItem(key, serializeDraft(getFormValues(snapshot), optionsRef.current));
+    } else {
+      await storage.removeItem(key);
+    }
+  }, [actorRef, key]);
+
+  const clear = useCallback(
+    () =>
+      Promise.resolve()
+        .then(() => getStorage(optionsRef.current).removeItem(key))
+        .catch(reportError),
+    [key, reportError]
+  );
+
+  // Read the stored draft
+  useEffect(() => {
+    let active = true;
+    setStatus('loading');
+    setDraft(undefined);
+    const storage = getStorage(optionsRef.current);
+    Promise.resolve()
+      .then(() => storage.getItem(key))
+      .then(async (raw) => {
+        const stored = raw === null ? undefined : parseDraft(raw, optionsRef.current);
+        if (raw !== null && !stored) {
+          // Malformed, or saved with a version that can't be migrated
+          await storage.removeItem(key);
+        }
+        if (!active) {
+          return;
+        }
+        if (stored && optionsRef.current.autoRestore) {
+          restoreValues(stored.values);
+          setStatus('ready');
+        } else {
+          setDraft(stored);
+          setStatus(stored ? 'pending' : 'ready');
+        }
+      })
+      .catch((error) => {
+        reportError(error);
+        if (active) {
+          setStatus('ready');
+        }
+      });
+    return () => {
+      active = false;
+    };
+  }, [key, reportError, restoreValues]);
+
+  // Autosave; a pending draft is not overwritten before the user decides
+  useEffect(() => {
+    if (status !== 'ready') {
+      return;
+    }
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    let values = getFormValues(actorRef.getSnapshot());
+    const flush = () => {
+      if (timer !== undefined) {
+        clearTimeout(timer);
+        timer = undefined;
+        save().catch(reportError);
+      }
+    };
+    const changes = actorRef.subscribe((snapshot) => {
+      if (getFormValues(snapshot) === values) {
+        return;
+      }
+      values = getFormValues(snapshot);
+      timer ??= setTimeout(flush, throttle);
+    });
+    const submitted = actorRef.on('SUBMITTED', () => {
+      clearTimeout(timer);
+      timer = undefined;
+      clear();
+    });
+    window.addEventListener('pagehide', flush);
+    return () => {
+      changes.unsubscribe();
+      submitted.unsubscribe();
+      window.removeEventListener('pagehide', flush);
+      flush();
+    };
+  }, [actorRef, status, throttle, save, clear, reportError]);
+
+  const restore = useCallback(() => {
+    if (draft) {
+      restoreValues(draft.values);
+    }
+    setDraft(undefined);
+    setStatus('ready');
+  }, [draft, restoreValues]);
+
+  const discard = useCallback(() => {
+    setDraft(undefined);
+    setStatus('ready');
+    return clear();
+  }, [clear]);
+
+  return {
+    status,
+    savedAt: draft ? new Date(draft.savedAt) : undefined,
+    restore,
+    discard,
+    clear,
+  };
+}
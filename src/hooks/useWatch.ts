@@ -0,0 +1,56 @@
+/**
+ * Watch Hook
+ *
+ * Subscribe to field values of the surrounding form, re-rendering only when
+ * the watched values change
+ */
+
+import { useSelector } from '@xstate/react';
+import { useFormContext } from '../components/FormProvider';
+import { getFieldValue, getFormValues } from '../machines/formMachine';
+import type { Path, PathValue } from '../types/path';
+import type { UseFormReturn } from './useForm';
+
+const isSameList = (a: unknown, b: unknown): boolean =>
+  Array.isArray(a) && Array.isArray(b)
+    ? a.length === b.length && a.every((value, index) => Object.is(value, b[index]))
+    : Object.is(a, b);
+
+/**
+ * Hook returning the value of one field, several fields (as a tuple) or the whole form
+ *
+ * @example
+ * const country = useWatch<Onboarding, 'address.country'>('address.country')
+ * const [password, confirm] = useWatch(['password', 'confirmPassword'], form)
+ */
+export function useWatch<T extends object = Record<string, unknown>, P extends Path<T> = Path<T>>(
+  name: P,
+  form?: UseFormReturn<T, unknown>
+): PathValue<T, P>;
+export function useWatch<
+  T extends object = Record<string, unknown>,
+  const P extends readonly Path<T>[] = Path<T>[],
+>(names: P, form?: UseFormReturn<T, unknown>): { [K in keyof P]: PathValue<T, P[K]> };
+export function useWatch<T extends object = Record<string, unknown>>(
+  names?: undefined,
+  form?: UseFormReturn<T, unknown>
+): T;
+export function useWatch<T extends object>(
+  names?: Path<T> | readonly Path<T>[],
+  form?: UseFormReturn<T, unknown>
+): unknown {
+  const { actorRef } = useFormContext(form);
+  return useSelector(
+    actorRef,
+    (state) => {
+      if (names === undefined) {
+        return getFormValues(state);
+      }
+      if (typeof names === 'string') {
+        return getFieldValue(state, names);
+      }
+      return names.map((name) => getFieldValue(state, name));
+    },
+    isSameList
+  );
+}
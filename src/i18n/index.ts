@@ -0,0 +1,27 @@
+/**
+ * Validation Message Exports
+ */
+
+export {
+  enMessages,
+  esMessages,
+  formMessages,
+  getLocaleMessages,
+  ptBRMessages,
+} from './messages';
+export {
+  createTranslator,
+  defaultTranslate,
+  formatMessage,
+  isValidationError,
+  schemaMessage,
+} from './translate';
+export type {
+  FormMessageCode,
+  FormMessages,
+  MessageCatalog,
+  MessageOverrides,
+  MessageParams,
+  Translate,
+  ValidationError,
+} from './types';
@@ -0,0 +1,155 @@
+/**
+ * Message Catalogs
+ *
+ * Messages shipped for pt-BR (the default), en and es
+ */
+
+import type { FormMessages } from './types';
+
+export const ptBRMessages: FormMessages = {
+  required: 'Campo obrigatório',
+  email: 'Email inválido',
+  minLength: 'Mínimo {min} caracteres',
+  maxLength: 'Máximo {max} caracteres',
+  pattern: 'Formato inválido',
+  cpf: 'CPF inválido',
+  cnpj: 'CNPJ inválido',
+  cep: 'CEP inválido',
+  pis: 'PIS inválido',
+  renavam: 'RENAVAM inválido',
+  documentRequired: '{document} é obrigatório',
+  phone: 'Telefone inválido',
+  phoneRequired: 'Telefone é obrigatório',
+  url: 'URL inválida',
+  positiveInteger: 'Informe um número inteiro positivo',
+  price: 'Valor inválido',
+  futureDate: 'A data deve ser futura',
+  pastDate: 'A data deve ser passada',
+  minAge: 'Idade mínima de {min} anos',
+  oneOf: 'Opção inválida',
+  optional: '(opcional)',
+  submitFailed: 'Não foi possível enviar o formulário. Tente novamente.',
+  invalidForm: 'Revise os dados do formulário',
+  unverified: 'Não foi possível verificar',
+  errorSummaryTitle: 'Há um problema',
+  errorCountOne: '1 erro',
+  errorCount: '{count} erros',
+  validating: 'Validando',
+  valid: 'Válido',
+  expandSection: 'Expandir seção',
+  collapseSection: 'Recolher seção',
+  phoneLabel: 'Telefone',
+  country: 'País',
+  countryBR: 'Brasil',
+  countryPT: 'Portugal',
+  countryAR: 'Argentina',
+  countryUS: 'Estados Unidos',
+  draftFound: 'Encontramos um rascunho salvo. Deseja restaurá-lo?',
+  draftFoundAt: 'Encontramos um rascunho salvo em {savedAt}. Deseja restaurá-lo?',
+  draftRestore: 'Restaurar',
+  draftDiscard: 'Descartar',
+};
+
+export const enMessages: FormMessages = {
+  required: 'Required field',
+  email: 'Invalid email',
+  minLength: 'At least {min} characters',
+  maxLength: 'At most {max} characters',
+  pattern: 'Invalid format',
+  cpf: 'Invalid CPF',
+  cnpj: 'Invalid CNPJ',
+  cep: 'Invalid CEP',
+  pis: 'Invalid PIS',
+  renavam: 'Invalid RENAVAM',
+  documentRequired: '{document} is required',
+  phone: 'Invalid phone number',
+  phoneRequired: 'Phone number is required',
+  url: 'Invalid URL',
+  positiveInteger: 'Enter a positive whole number',
+  price: 'Invalid amount',
+  futureDate: 'The date must be in the future',
+  pastDate: 'The date must be in the past',
+  minAge: 'You must be at least {min} years old',
+  oneOf: 'Invalid option',
+  optional: '(optional)',
+  submitFailed: 'The form could not be submitted. Please try again.',
+  invalidForm: 'Please review the form',
+  unverified: 'Could not verify',
+  errorSummaryTitle: 'There is a problem',
+  errorCountOne: '1 error',
+  errorCount: '{count} errors',
+  validating: 'Validating',
+  valid: 'Valid',
+  expandSection: 'Expand section',
+  collapseSection: 'Collapse section',
+  phoneLabel: 'Phone',
+  country: 'Country',
+  countryBR: 'Brazil',
+  countryPT: 'Portugal',
+  countryAR: 'Argentina',
+  countryUS: 'United States',
+  draftFound: 'We found a saved draft. Do you want to restore it?',
+  draftFoundAt: 'We found a draft saved on {savedAt}. Do you want to restore it?',
+  draftRestore: 'Restore',
+  draftDiscard: 'Discard',
+};
+
+export const esMessages: FormMessages = {
+  required: 'Campo obligatorio',
+  email: 'Correo electrónico inválido',
+  minLength: 'Mínimo {min} caracteres',
+  maxLength: 'Máximo {max} caracteres',
+  pattern: 'Formato inválido',
+  cpf: 'CPF inválido',
+  cnpj: 'CNPJ inválido',
+  cep: 'CEP inválido',
+  pis: 'PIS inválido',
+  renavam: 'RENAVAM inválido',
+  documentRequired: '{document} es obligatorio',
+  phone: 'Teléfono inválido',
+  phoneRequired: 'El teléfono es obligatorio',
+  url: 'URL inválida',
+  positiveInteger: 'Ingrese un número entero positivo',
+  price: 'Importe inválido',
+  futureDate: 'La fecha debe ser futura',
+  pastDate: 'La fecha debe ser pasada',
+  minAge: 'Edad mínima de {min} años',
+  oneOf: 'Opción inválida',
+  optional: '(opcional)',
+  submitFailed: 'No se pudo enviar el formulario. Inténtelo de nuevo.',
+  invalidForm: 'Revise los datos del formulario',
+  unverified: 'No se pudo verificar',
+  errorSummaryTitle: 'Hay un problema',
+  errorCountOne: '1 error',
+  errorCount: '{count} errores',
+  validating: 'Validando',
+  valid: 'Válido',
+  expandSection: 'Expandir sección',
+  collapseSection: 'Contraer sección',
+  phoneLabel: 'Teléfono',
+  country: 'País',
+  countryBR: 'Brasil',
+  countryPT: 'Portugal',
+  countryAR: 'Argentina',
+  countryUS: 'Estados Unidos',
+  draftFound: 'Encontramos un borrador guardado. ¿Desea restaurarlo?',
+  draftFoundAt: 'Encontramos un borrador guardado el {savedAt}. ¿Desea restaurarlo?',
+  draftRestore: 'Restaurar',
+  draftDiscard: 'Descartar',
+};
+
+/**
+ * Shipped catalogs by locale
+ */
+export const formMessages: Record<string, FormMessages> = {
+  'pt-BR': ptBRMessages,
+  en: enMessages,
+  es: esMessages,
+};
+
+/**
+ * Catalog of a locale, falling back to its language (`en-US` → `en`) and then to pt-BR
+ */
+export function getLocaleMessages(locale: string): FormMessages {
+  return formMessages[locale] ?? formMessages[locale.split('-')[0] ?? ''] ?? ptBRMessages;
+}
@@ -0,0 +1,58 @@
+/**
+ * Message Translation
+ *
+ * Resolving structured errors into messages from a catalog
+ */
+
+import { ptBRMessages } from './messages';
+import type { MessageParams, Translate, ValidationError } from './types';
+
+/**
+ * Replace the `{name}` placeholders of a template; unknown ones are kept
+ * @example
+ * formatMessage('Mínimo {min} caracteres', { min: 8 }) // 'Mínimo 8 caracteres'
+ */
+export function formatMessage(template: string, params: MessageParams = {}): string {
+  return template.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    name in params ? String(params[name]) : placeholder
+  );
+}
+
+export function isValidationError(value: unknown): value is ValidationError {
+  return (
+    typeof value === 'object' &&
+    value !== null &&
+    typeof (value as { code?: unknown }).code === 'string'
+  );
+}
+
+/**
+ * Translate with the given catalog; codes missing from it resolve to the code itself
+ */
+export function createTranslator(messages: Record<string, string>): Translate {
+  return (message) => {
+    if (typeof message === 'string') {
+      return message;
+    }
+    const template = messages[message.code];
+    return template === undefined ? message.code : formatMessage(template, message.params);
+  };
+}
+
+/**
+ * Translator used outside a FormI18nProvider (pt-BR)
+ */
+export const defaultTranslate: Translate = createTranslator(ptBRMessages);
+
+/**
+ * Zod issue options for a catalog message: pt-BR when the schema is parsed on
+ * its own, the form's locale when it runs through zodResolver
+ * @example
+ * z.string().refine(isValidCPF, schemaMessage({ code: 'cpf' }))
+ */
+export function schemaMessage(error: ValidationError): {
+  message: string;
+  params: ValidationError;
+} {
+  return { message: defaultTranslate(error), params: error };
+}
@@ -0,0 +1,84 @@
+/**
+ * Validation Message Types
+ *
+ * Validators report structured errors (a code and its params); message
+ * catalogs turn them into text in the current locale.
+ */
+
+export type MessageParams = Record<string, string | number>;
+
+/**
+ * Structured error, resolved into a message from the catalog entry of its code
+ * @example
+ * { code: 'minLength', params: { min: 8 } } // 'Mínimo 8 caracteres'
+ */
+export interface ValidationError {
+  code: string;
+  params?: MessageParams;
+}
+
+/**
+ * Codes of the messages shipped with the library
+ */
+export type FormMessageCode =
+  | 'required'
+  | 'email'
+  | 'minLength'
+  | 'maxLength'
+  | 'pattern'
+  | 'cpf'
+  | 'cnpj'
+  | 'cep'
+  | 'pis'
+  | 'renavam'
+  | 'documentRequired'
+  | 'phone'
+  | 'phoneRequired'
+  | 'url'
+  | 'positiveInteger'
+  | 'price'
+  | 'futureDate'
+  | 'pastDate'
+  | 'minAge'
+  | 'oneOf'
+  | 'optional'
+  | 'submitFailed'
+  | 'invalidForm'
+  | 'unverified'
+  | 'errorSummaryTitle'
+  | 'errorCountOne'
+  | 'errorCount'
+  | 'validating'
+  | 'valid'
+  | 'expandSection'
+  | 'collapseSection'
+  | 'phoneLabel'
+  | 'country'
+  | 'countryBR'
+  | 'countryPT'
+  | 'countryAR'
+  | 'countryUS'
+  | 'draftFound'
+  | 'draftFoundAt'
+  | 'draftRestore'
+  | 'draftDiscard';
+
+/**
+ * Message templates by code; `{name}` placeholders are replaced by the params
+ */
+export type FormMessages = Record<FormMessageCode, string>;
+
+/**
+ * Catalog of a locale: the library messages plus the codes added by the app
+ */
+export type MessageCatalog = FormMessages & Record<string, string>;
+
+/**
+ * Per-app overrides and additional codes
+ */
+export type MessageOverrides = Partial<FormMessages> & Record<string, string>;
+
+/**
+ * Turns a structured error into a message; plain strings are returned as is
+ */
+export type Translate = (message: string | ValidationError) => string;
@@ -5,10 +5,39 @@
  * Only export what should be part of the public API.
  */
 
+export * from './components/ErrorSummary';
+export * from './components/FormDraftPrompt';
 export * from './components/FormField';
+export * from './components/FormI18nProvider';
+export * from './components/FormProvider';
+export * from './components/FormStepper';
+export * from './components/MaskedInput';
 export * from './components/PhoneInput';
+export * from './hooks/useField';
+export * from './hooks/useFieldErrors';
+export * from './hooks/useFieldArray';
 export * from './hooks/useForm';
+export * from './hooks/useFormDraft';
+export * from './hooks/useWatch';
+export * from './i18n';
+export type { ComputedField, ComputedFields } from './machines/computed';
+export type {
+  FieldCondition,
+  FieldConditionState,
+  FieldConditions,
+} from './machines/conditions';
+export type { FieldArrayEvent } from './machines/fieldArray';
 export * from './machines/formMachine';
+export type { FormStep, FormStepEvent } from './machines/steps';
+export * from './persistence';
+export * from './resolvers';
+export * from './submitErrors';
 export * from './validators';
+export * from './validators/brazilian';
 export * from './validators/generic';
+export * from './validators/registry';
+export * from './utils/formatters';
+export * from './utils/path';
+export * from './utils/phone';
 export * from './utils/regex';
+export type * from './types/path';
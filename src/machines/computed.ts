@@ -0,0 +1,120 @@
+/**
+ * Computed Fields
+ *
+ * Fields whose value is derived from other fields, recalculated by the form
+ * machine when their dependencies change
+ *
+ * @example
+ * const computed: ComputedFields<Order> = {
+ *   total: { deps: ['qty', 'price'], compute: (values) => values.qty * values.price },
+ *   age: { deps: ['birthDate'], compute: (values) => calculateAge(values.birthDate) },
+ * };
+ */
+
+import type { Path, PathValue } from '../types/path';
+import { getIn, isWithinPath, setIn } from '../utils/path';
+
+export interface ComputedField<T, V = unknown> {
+  /**
+   * Fields the value is derived from; a path also covers the fields below it
+   */
+  deps: Path<T>[];
+
+  compute(values: T): V;
+
+  /**
+   * Reject changes to the field; when false, a value entered by the user
+   * replaces the computed one until the field (or the form) is reset
+   * @default true
+   */
+  readOnly?: boolean;
+}
+
+export type ComputedFields<T> = {
+  [P in Path<T>]?: ComputedField<T, PathValue<T, P>>;
+};
+
+/**
+ * Whether a change at one path affects a value at the other
+ */
+const overlaps = (a: string, b: string): boolean => isWithinPath(a, [b]) || isWithinPath(b, [a]);
+
+/**
+ * Order computed fields so that each one comes after the computed fields it depends on
+ * @throws when computed fields depend on each other in a cycle
+ */
+export function orderComputedFields<T>(computed: ComputedFields<T>): string[] {
+  const fields = Object.keys(computed);
+  const ordered: string[] = [];
+  const visiting: string[] = [];
+
+  const visit = (field: string) => {
+    if (ordered.includes(field)) {
+      return;
+    }
+    const cycleStart = visiting.indexOf(field);
+    if (cycleStart !== -1) {
+      const cycle = [...visiting.slice(cycleStart), field].join(' → ');
+      throw new Error(`Computed fields depend on each other in a cycle: ${cycle}`);
+    }
+    visiting.push(field);
+    const deps = (computed[field as Path<T>]?.deps ?? []) as string[];
+    for (const other of fields) {
+      if (deps.some((dep) => overlaps(dep, other))) {
+        visit(other);
+      }
+    }
+    visiting.pop();
+    ordered.push(field);
+  };
+
+  for (const field of fields) {
+    visit(field);
+  }
+  return ordered;
+}
+
+/**
+ * Recalculate the computed fields affected by the changed paths (all of them
+ * when `changed` is undefined), skipping fields overridden by the user
+ *
+ * A field is affected when one of its dependencies changed, or when the field
+ * itself was written (e.g. by resetting it or setting its parent object).
+ */
+export function applyComputedFields<T>(
+  computed: ComputedFields<T>,
+  order: readonly string[],
+  values: T,
+  changed: readonly string[] | undefined,
+  overridden: readonly string[] = []
+): T {
+  const dirty = changed ? [...changed] : undefined;
+  let next = values;
+  for (const field of order) {
+    const config = computed[field as Path<T>];
+    if (!config || overridden.includes(field)) {
+      continue;
+    }
+    const deps = config.deps as string[];
+    const affected =
+      !dirty ||
+      dirty.some((path) => overlaps(field, path) || deps.some((dep) => overlaps(dep, path)));
+    if (!affected) {
+      continue;
+    }
+    const value = config.compute(next);
+    if (!Object.is(value, getIn(next, field))) {
+      next = setIn(next, field, value);
+      dirty?.push(field);
+    }
+  }
+  return next;
+}
+
+/**
+ * Whether the field is computed and rejects changes
+ */
+export function isComputedReadOnly<T>(computed: ComputedFields<T>, field: string): boolean {
+  const config = computed[field as Path<T>];
+  return !!config && config.readOnly !== false;
+}
@@ -0,0 +1,98 @@
+/**
+ * Conditional Fields
+ *
+ * Declarative visibility, enabled and required rules evaluated by the form
+ * machine whenever values change
+ *
+ * @example
+ * const conditions: FieldConditions<Customer> = {
+ *   cnpj: {
+ *     visibleWhen: (values) => values.personType === 'PJ',
+ *     requiredWhen: (values) => values.personType === 'PJ',
+ *   },
+ * };
+ */
+
+import type { Path } from '../types/path';
+import { isWithinPath } from '../utils/path';
+
+export interface FieldCondition<T> {
+  /**
+   * Show the field only when true; hidden fields (and fields below them) are
+   * not validated and can be left out of the submitted values
+   */
+  visibleWhen?(values: T): boolean;
+
+  /**
+   * Disable the field when true
+   */
+  disabledWhen?(values: T): boolean;
+
+  /**
+   * Require a value when true
+   */
+  requiredWhen?(values: T): boolean;
+}
+
+/**
+ * Conditions keyed by field path; a path also covers the fields below it
+ */
+export type FieldConditions<T> = {
+  [P in Path<T>]?: FieldCondition<T>;
+};
+
+export interface FieldConditionState {
+  hidden: boolean;
+  disabled: boolean;
+  required: boolean;
+}
+
+type FieldConditionStates = Partial<Record<string, FieldConditionState>>;
+
+/**
+ * Evaluate every condition against `values`
+ *
+ * Entries that did not change are taken from `previous`, so subscribers of a
+ * single field are not notified.
+ */
+export function evaluateFieldConditions<T>(
+  conditions: FieldConditions<T>,
+  values: T,
+  previous: FieldConditionStates = {}
+): FieldConditionStates {
+  const states: FieldConditionStates = {};
+  for (const [field, condition] of Object.entries(conditions) as [string, FieldCondition<T>][]) {
+    const next: FieldConditionState = {
+      hidden: condition.visibleWhen ? !condition.visibleWhen(values) : false,
+      disabled: condition.disabledWhen?.(values) ?? false,
+      required: condition.requiredWhen?.(values) ?? false,
+    };
+    const current = previous[field];
+    states[field] =
+      current &&
+      current.hidden === next.hidden &&
+      current.disabled === next.disabled &&
+      current.required === next.required
+        ? current
+        : next;
+  }
+  return states;
+}
+
+/**
+ * Paths of the hidden fields
+ */
+export function getHiddenFields(states: FieldConditionStates): string[] {
+  return Object.keys(states).filter((field) => states[field]?.hidden);
+}
+
+/**
+ * Whether `field`, or a field it is nested in, has the given state
+ */
+export function hasConditionState(
+  states: FieldConditionStates,
+  field: string,
+  key: 'hidden' | 'disabled'
+): boolean {
+  return Object.keys(states).some((path) => states[path]?.[key] && isWithinPath(field, [path]));
+}
@@ -0,0 +1,156 @@
+/**
+ * Field Array Operations
+ *
+ * Pure helpers behind the form machine's ARRAY_* events
+ */
+
+import type { Path } from '../types/path';
+
+export type FieldArrayEvent<T> =
+  | { type: 'ARRAY_APPEND'; field: Path<T>; value: unknown }
+  | { type: 'ARRAY_INSERT'; field: Path<T>; index: number; value: unknown }
+  | { type: 'ARRAY_REMOVE'; field: Path<T>; index: number }
+  | { type: 'ARRAY_MOVE'; field: Path<T>; from: number; to: number }
+  | { type: 'ARRAY_SWAP'; field: Path<T>; indexA: number; indexB: number };
+
+export interface FieldArrayOperation {
+  /**
+   * Apply the operation to a copy of the rows, using `create` for inserted rows
+   */
+  apply: <V>(items: readonly V[], create: () => V) => V[];
+
+  /**
+   * New index of the row previously at `index` (`undefined` when removed)
+   */
+  mapIndex: (index: number) => number | undefined;
+}
+
+let rowKeyCounter = 0;
+
+/**
+ * Create a unique key for a newly added row
+ */
+export function createRowKey(): string {
+  rowKeyCounter += 1;
+  return `row-${rowKeyCounter}`;
+}
+
+/**
+ * Align row keys with the current row count
+ *
+ * Rows without a key (initial values, or arrays replaced wholesale) get their
+ * index as key, so keys stay stable until the first array operation.
+ */
+export function normalizeRowKeys(keys: readonly string[] | undefined, length: number): string[] {
+  const current = keys ?? [];
+  return Array.from({ length }, (_, index) => current[index] ?? String(index));
+}
+
+/**
+ * Operation leaving the rows and their indexes as they are
+ */
+const unchanged: FieldArrayOperation = {
+  apply: (items) => [...items],
+  mapIndex: (index) => index,
+};
+
+const isIndexWithin = (index: number, max: number): boolean =>
+  Number.isInteger(index) && index >= 0 && index <= max;
+
+/**
+ * Describe how an ARRAY_* event changes the `length` rows of an array and their indexes
+ *
+ * Events naming a row that doesn't exist (negative, fractional or past the
+ * end) change nothing; a move target past the end lands on the last index.
+ */
+export function toFieldArrayOperation<T>(
+  event: FieldArrayEvent<T>,
+  length: number
+): FieldArrayOperation {
+  switch (event.type) {
+    case 'ARRAY_APPEND':
+      return {
+        apply: (items, create) => [...items, create()],
+        mapIndex: (index) => index,
+      };
+    case 'ARRAY_INSERT':
+      if (!isIndexWithin(event.index, length)) {
+        return unchanged;
+      }
+      return {
+        apply: (items, create) => [
+          ...items.slice(0, event.index),
+          create(),
+          ...items.slice(event.index),
+        ],
+        mapIndex: (index) => (index >= event.index ? index + 1 : index),
+      };
+    case 'ARRAY_REMOVE':
+      if (!isIndexWithin(event.index, length - 1)) {
+        return unchanged;
+      }
+      return {
+        apply: (items) => items.filter((_, index) => index !== event.index),
+        mapIndex: (index) => {
+          if (index === event.index) {
+            return undefined;
+          }
+          return index > event.index ? index - 1 : index;
+        },
+      };
+    case 'ARRAY_MOVE': {
+      const { from } = event;
+      if (!isIndexWithin(from, length - 1) || !Number.isInteger(event.to)) {
+        return unchanged;
+      }
+      // Rows moved past the end land on the last index
+      const to = Math.max(0, Math.min(event.to, length - 1));
+      return {
+        apply: (items) => {
+          const next = [...items];
+          const [moved] = next.splice(from, 1);
+          if (moved !== undefined) {
+            next.splice(to, 0, moved);
+          }
+          return next;
+        },
+        mapIndex: (index) => {
+          if (index === from) {
+            return to;
+          }
+          if (from < to && index > from && index <= to) {
+            return index - 1;
+          }
+          if (from > to && index >= to && index < from) {
+            return index + 1;
+          }
+          return index;
+        },
+      };
+    }
+    case 'ARRAY_SWAP': {
+      const { indexA, indexB } = event;
+      if (!isIndexWithin(indexA, length - 1) || !isIndexWithin(indexB, length - 1)) {
+        return unchanged;
+      }
+      return {
+        apply: (items) => {
+          const next = [...items];
+          const a = next[indexA];
+          const b = next[indexB];
+          if (a !== undefined && b !== undefined) {
+            next[indexA] = b;
+            next[indexB] = a;
+          }
+          return next;
+        },
+        mapIndex: (index) => {
+          if (index === indexA) {
+            return indexB;
+          }
+          return index === indexB ? indexA : index;
+        },
+      };
+    }
+  }
+}
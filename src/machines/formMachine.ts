@@ -4,81 +4,545 @@
  * XState machine for form state management
  */
 
-import { assign, fromPromise, setup } from 'xstate'
+import {
+  type ActorRefFrom,
+  assign,
+  emit,
+  enqueueActions,
+  fromCallback,
+  fromPromise,
+  setup,
+} from 'xstate'
+import type { z } from 'zod'
+import { defaultTranslate } from '../i18n/translate'
+import type { Translate } from '../i18n/types'
+import type { FormResolver } from '../resolvers/types'
+import { zodResolver } from '../resolvers/zod'
+import type { Path, PathValue } from '../types/path'
+import {
+  collectLeafPaths,
+  getIn,
+  isWithinPath,
+  omitPath,
+  omitPaths,
+  pickPaths,
+  remapIndexedPaths,
+  setIn,
+  unsetIn,
+} from '../utils/path'
+import { validators } from '../validators'
+import {
+  type FieldRulesResult,
+  type FieldValidators,
+  getDependentFields,
+  hasFieldRules,
+  runAllFieldRules,
+  runFieldRules,
+  type ValidationNotice,
+} from '../validators/registry'
+import {
+  createRowKey,
+  type FieldArrayEvent,
+  normalizeRowKeys,
+  toFieldArrayOperation,
+} from './fieldArray'
+import {
+  applyComputedFields,
+  type ComputedFields,
+  isComputedReadOnly,
+  orderComputedFields,
+} from './computed'
+import {
+  evaluateFieldConditions,
+  type FieldConditionState,
+  type FieldConditions,
+  getHiddenFields,
+  hasConditionState,
+} from './conditions'
+import {
+  type FormStep,
+  type FormStepEvent,
+  findActiveStep,
+  getSkippedStepFields,
+  isStepActive,
+  resolveStepIndex,
+} from './steps'
 
-type FormErrors<T> = Partial<Record<keyof T, string>>
-type TouchedFields<T> = Partial<Record<keyof T, boolean>>
-type FormValidator<T> = (values: T) => FormErrors<T> | Promise<FormErrors<T>>
+/**
+ * Errors keyed by dotted field path (e.g. `'address.zip'`)
+ */
+export type FormErrors<T> = Partial<Record<Path<T>, string>>
+
+/**
+ * Non-blocking messages (warnings, info) keyed by dotted field path
+ */
+export type FormNotices<T> = Partial<Record<Path<T>, ValidationNotice>>
+
+/**
+ * Touched flags keyed by dotted field path
+ */
+export type TouchedFields<T> = Partial<Record<Path<T>, boolean>>
+
+/**
+ * Whole-form validator returning errors keyed by field path
+ */
+export type FormValidator<T> = (values: T) => FormErrors<T> | Promise<FormErrors<T>>
 
 interface FormContext<T> {
   values: T
   errors: FormErrors<T>
+  /**
+   * Warnings and info from field rules; unlike errors they don't block submission
+   */
+  notices: FormNotices<T>
   touched: TouchedFields<T>
   isSubmitting: boolean
+  /**
+   * Number of submit attempts since the last reset
+   */
+  submitCount: number
   initialValues: T
   validateOnChange: boolean
   validateOnBlur: boolean
+  /**
+   * Stable row keys per field array path
+   */
+  fieldArrayKeys: Partial<Record<string, string[]>>
+  /**
+   * Fields whose validator is currently running
+   */
+  validating: Partial<Record<string, boolean>>
+  /**
+   * Latest validation run per field; older results are ignored
+   */
+  validationRuns: Partial<Record<string, number>>
+  /**
+   * Form-level message of the last failed submission
+   */
+  submitError?: string
+  /**
+   * Form-level error of the last whole-form validation (resolver issues on
+   * the values as a whole); blocks submission like field errors
+   */
+  formError?: string
+  /**
+   * Fields whose error came from the last failed submission; cleared when they change
+   */
+  submitErrorFields: string[]
+  /**
+   * Parsed values produced by the resolver on the last successful validation
+   */
+  output: unknown
+  /**
+   * Visibility, enabled and required state of the fields with conditions
+   */
+  fieldConditions: Partial<Record<string, FieldConditionState>>
+  computed: ComputedFields<T>
+  /**
+   * Computed fields whose value was entered by the user and is no longer recalculated
+   */
+  overriddenFields: string[]
+  steps: FormStep<T>[]
+  /**
+   * Index of the current step
+   */
+  currentStep: number
+  /**
+   * Ids of the steps left with NEXT/GOTO after passing their validation
+   */
+  completedSteps: string[]
+  /**
+   * Step to move to once the current one passes validation
+   */
+  pendingStep?: number
 }
 
 type FormEvent<T> =
-  | { type: 'CHANGE_FIELD'; field: keyof T; value: T[keyof T] }
-  | { type: 'BLUR_FIELD'; field: keyof T }
-  | { type: 'SET_FIELD_VALUE'; field: keyof T; value: T[keyof T] }
-  | { type: 'SET_FIELD_ERROR'; field: keyof T; error: string }
+  | { type: 'CHANGE_FIELD'; field: Path<T>; value: unknown }
+  | { type: 'BLUR_FIELD'; field: Path<T> }
+  | { type: 'SET_FIELD_VALUE'; field: Path<T>; value: unknown }
+  | { type: 'SET_FIELD_ERROR'; field: Path<T>; error: string }
   | { type: 'SET_ERRORS'; errors: FormErrors<T> }
   | { type: 'SUBMIT' }
   | { type: 'SUBMIT_SUCCESS' }
-  | { type: 'SUBMIT_FAILURE'; error: Error }
+  | { type: 'SUBMIT_FAILURE'; error: Error; errors?: FormErrors<T>; message?: string }
   | { type: 'RESET' }
-  | { type: 'RESET_FIELD'; field: keyof T }
+  | { type: 'RESET_FIELD'; field: Path<T> }
+  | { type: 'RESTORE_VALUES'; values: T }
   | { type: 'VALIDATE_FORM' }
-  | { type: 'VALIDATE_FIELD'; field: keyof T }
+  | { type: 'VALIDATE_FIELD'; field: Path<T> }
   | { type: 'VALIDATION_SUCCESS'; errors: FormErrors<T> }
-  | { type: 'FIELD_VALIDATION_SUCCESS'; field: keyof T; error?: string }
-
-// Type helper for the machine return type (for isolated declarations)
-type FormMachineType<T> = ReturnType<
-  typeof setup<{
-    context: FormContext<T>
-    events: FormEvent<T>
-  }>['createMachine']
->
-
-export function createFormMachine<T extends Record<string, unknown>>(
-  initialValues: T,
+  | {
+      type: 'FIELD_VALIDATION_SUCCESS'
+      field: Path<T>
+      error?: string
+      notice?: ValidationNotice
+      run?: number
+    }
+  | { type: 'FIELD_VALIDATION_FAILURE'; field: Path<T>; run?: number }
+  | { type: 'RUN_FIELD_VALIDATION'; field: Path<T> }
+  | FieldArrayEvent<T>
+  | FormStepEvent
+
+/**
+ * Events emitted by the form actor (see `actorRef.on`)
+ */
+export type FormEmittedEvent = { type: 'SUBMITTED' }
+
+export interface FormMachineOptions<T> {
+  /**
+   * Delay (ms) between the last change of a field and its validation
+   * @default 0
+   */
+  debounce?: number
+
+  /**
+   * Per-field debounce overrides, e.g. for slow server-backed checks
+   */
+  fieldDebounce?: Partial<Record<Path<T>, number>>
+
+  /**
+   * Per-field validators; validating a field runs only its rules and those of its dependents
+   */
+  validators?: FieldValidators<T>
+
+  /**
+   * Whole-form resolver; its parsed output is what gets submitted
+   */
+  resolver?: FormResolver<T, unknown>
+
+  /**
+   * Zod schema used as resolver when no `resolver` is given
+   */
+  schema?: z.ZodType<unknown, T>
+
+  /**
+   * Ordered steps of a multi-step form; NEXT and GOTO only validate the current step's fields
+   */
+  steps?: FormStep<T>[]
+
+  /**
+   * Visibility, enabled and required rules per field, re-evaluated on every change
+   */
+  conditions?: FieldConditions<T>
+
+  /**
+   * Leave hidden fields out of the submitted values. Values the resolver
+   * rejects on account of hidden fields are parsed again without them.
+   * @default false
+   */
+  omitHiddenValues?: boolean
+
+  /**
+   * Fields derived from other fields, recalculated when their dependencies change
+   * @throws when computed fields depend on each other in a cycle
+   */
+  computed?: ComputedFields<T>
+
+  /**
+   * Turns the structured errors of field rules into messages (useForm passes
+   * the one of FormI18nProvider)
+   * @default the pt-BR catalog
+   */
+  translate?: Translate
+}
+
+const debounceId = (field: string) => `debounce:${field}`
+const validatorId = (field: string) => `validateField:${field}`
+
+/**
+ * Merge a form-level validation result, keeping the current error of any
+ * field whose value changed while the validation was running
+ */
+function mergeValidationErrors<T>(
+  context: FormContext<T>,
+  validatedValues: T,
+  errors: FormErrors<T>
+): FormErrors<T> {
+  const merged: Record<string, string | undefined> = {}
+  const current = context.errors as Record<string, string | undefined>
+  const next = errors as Record<string, string | undefined>
+  for (const path of new Set([...Object.keys(current), ...Object.keys(next)])) {
+    const stale = getIn(context.values, path) !== getIn(validatedValues, path)
+    const error = stale ? current[path] : next[path]
+    if (error) {
+      merged[path] = error
+    }
+  }
+  return merged as FormErrors<T>
+}
+
+export function createFormMachine<T extends object>(
+  defaultValues: T,
   validate?: FormValidator<T>,
   validateOnChange = true,
-  validateOnBlur = true
-): FormMachineType<T> {
+  validateOnBlur = true,
+  options: FormMachineOptions<T> = {}
+) {
+  const debounce = options.debounce ?? 0
+  const fieldDebounce: Partial<Record<string, number>> = options.fieldDebounce ?? {}
+  const fieldValidators: FieldValidators<T> = options.validators ?? {}
+  const resolver: FormResolver<T, unknown> | undefined =
+    options.resolver ?? (options.schema ? zodResolver(options.schema) : undefined)
+
+  const computed: ComputedFields<T> = options.computed ?? {}
+  const computedOrder = orderComputedFields(computed)
+  const initialValues = applyComputedFields(computed, computedOrder, defaultValues, undefined)
+
+  const steps = options.steps ?? []
+  const initialStep = findActiveStep(steps, initialValues, -1, 1) ?? 0
+  const conditions: FieldConditions<T> = options.conditions ?? {}
+  const translate = options.translate ?? defaultTranslate
+  const requiredCheck = validators.required()
+
+  // Fields that are not validated: hidden ones and those of skipped steps
+  const getExcludedFields = (values: T): string[] => [
+    ...getHiddenFields(evaluateFieldConditions(conditions, values)),
+    ...getSkippedStepFields(steps, values),
+  ]
+
+  // Errors of the fields whose requiredWhen rule applies and that have no value
+  const getConditionalRequiredErrors = (values: T): Record<string, string> => {
+    const errors: Record<string, string> = {}
+    const states = evaluateFieldConditions(conditions, values)
+    for (const field of Object.keys(states)) {
+      const error = states[field]?.required && requiredCheck(getIn(values, field))
+      if (error) {
+        errors[field] = translate(error)
+      }
+    }
+    return errors
+  }
+
+  const collectErrors = async (values: T, registry: FieldValidators<T>, signal: AbortSignal) => {
+    const [formErrors, fieldResults, resolved] = await Promise.all([
+      validate ? validate(values) : ({} as FormErrors<T>),
+      runAllFieldRules(registry, values, { signal, translate }),
+      resolver ? resolver(values, { signal, translate }) : undefined,
+    ])
+    return {
+      errors: {
+        ...resolved?.errors,
+        ...formErrors,
+        ...fieldResults.errors,
+        ...getConditionalRequiredErrors(values),
+      } as FormErrors<T>,
+      notices: fieldResults.notices as FormNotices<T>,
+      resolved,
+    }
+  }
+
+  const resolveForm = async (values: T, signal: AbortSignal) => {
+    const { errors, notices, resolved } = await collectErrors(values, fieldValidators, signal)
+    const excludedFields = getExcludedFields(values)
+    const fieldErrors = omitPaths(errors, excludedFields)
+    const blocked = Object.keys(fieldErrors).length > 0
+    // Hidden fields and fields of skipped steps don't block submission, so when
+    // the resolver rejected the values on their account only, parse the values
+    // without them: what is submitted always comes out of the resolver
+    const rejected = resolved?.values === undefined && !resolved?.formError && !blocked
+    const parsed =
+      resolver && rejected && excludedFields.length > 0
+        ? await resolver(
+            excludedFields.reduce((result, field) => unsetIn(result, field), values),
+            { signal, translate }
+          )
+        : resolved
+    // Without parsed values there is nothing to submit, even when no field is to blame
+    const formError =
+      parsed && parsed.values === undefined && !blocked
+        ? (parsed.formError ?? translate({ code: 'invalidForm' }))
+        : resolved?.formError
+    const output = resolver ? parsed?.values : values
+    const omittedFields = options.omitHiddenValues
+      ? getHiddenFields(evaluateFieldConditions(conditions, values))
+      : []
+    return {
+      values,
+      errors: fieldErrors,
+      notices: omitPaths(notices, excludedFields),
+      formError,
+      output: omittedFields.reduce((result, field) => unsetIn(result, field), output),
+    }
+  }
+
+  // Validate the fields of a step only, running just the rules registered for them
+  const resolveStep = async (values: T, fields: readonly string[], signal: AbortSignal) => {
+    const stepValidators = pickPaths(fieldValidators as Record<string, unknown>, fields)
+    const { errors, notices } = await collectErrors(
+      values,
+      stepValidators as FieldValidators<T>,
+      signal
+    )
+    const excludedFields = getExcludedFields(values)
+    return {
+      fields,
+      errors: omitPaths(pickPaths(errors, fields), excludedFields),
+      notices: omitPaths(pickPaths(notices, fields), excludedFields),
+    }
+  }
+
+  // Target index of a GOTO event, if that step exists, applies and is not the current one
+  const getGotoTarget = (context: FormContext<T>, event: FormEvent<T>): number | undefined => {
+    if (event.type !== 'GOTO') {
+      return undefined
+    }
+    const target = resolveStepIndex(context.steps, event.step)
+    const step = context.steps[target]
+    return step && target !== context.currentStep && isStepActive(step, context.values)
+      ? target
+      : undefined
+  }
+
+  const runFieldValidation = async (
+    values: T,
+    field: Path<T>,
+    signal: AbortSignal
+  ): Promise<FieldRulesResult> => {
+    if (isWithinPath(field, getExcludedFields(values))) {
+      return {}
+    }
+    const requiredError = getConditionalRequiredErrors(values)[field]
+    if (requiredError) {
+      return { error: requiredError }
+    }
+    let notice: ValidationNotice | undefined
+    if (hasFieldRules(fieldValidators, field)) {
+      const result = await runFieldRules(fieldValidators, field, getIn(values, field), values, {
+        signal,
+        translate,
+      })
+      if (result.error) {
+        return result
+      }
+      notice = result.notice
+    }
+    if (validate) {
+      const errors = await validate(values)
+      if (errors[field]) {
+        return { error: errors[field], notice }
+      }
+    }
+    if (resolver) {
+      const { errors } = await resolver(values, { signal, translate })
+      return { error: errors[field], notice }
+    }
+    return { notice }
+  }
+
+  // Whether anything can report an error for the field itself (skips no-op validation runs)
+  const canValidateField = (field: string): boolean =>
+    !!validate ||
+    !!resolver ||
+    hasFieldRules(fieldValidators, field) ||
+    !!conditions[field as Path<T>]?.requiredWhen
+
   return setup({
     types: {
       context: {} as FormContext<T>,
       events: {} as FormEvent<T>,
+      emitted: {} as FormEmittedEvent,
     },
     actors: {
-      validateForm: fromPromise(async ({ input }: { input: { values: T } }) => {
-        if (!validate) {
-          return {}
+      validateForm: fromPromise(
+        async ({ input, signal }: { input: { values: T }; signal: AbortSignal }) =>
+          resolveForm(input.values, signal)
+      ),
+      validateStep: fromPromise(
+        async ({
+          input,
+          signal,
+        }: {
+          input: { values: T; fields: readonly string[] }
+          signal: AbortSignal
+        }) => resolveStep(input.values, input.fields, signal)
+      ),
+      validateField: fromCallback<FormEvent<T>, { values: T; field: Path<T>; run: number }>(
+        ({ input, sendBack }) => {
+          const { values, field, run } = input
+          const controller = new AbortController()
+          let cancelled = false
+          runFieldValidation(values, field, controller.signal)
+            .then(({ error, notice }) => {
+              if (!cancelled) {
+                sendBack({ type: 'FIELD_VALIDATION_SUCCESS', field, error, notice, run })
+              }
+            })
+            .catch(() => {
+              if (!cancelled) {
+                sendBack({ type: 'FIELD_VALIDATION_FAILURE', field, run })
+              }
+            })
+          return () => {
+            cancelled = true
+            controller.abort()
+          }
         }
-        const errors = await validate(input.values)
-        return errors
-      }),
-      validateField: fromPromise(async ({ input }: { input: { values: T; field: keyof T } }) => {
-        if (!validate) {
-          return undefined
+      ),
+    },
+    guards: {
+      // Read-only computed fields ignore value changes
+      isWritableField: ({ event }) =>
+        !('field' in event) || !isComputedReadOnly(computed, event.field as string),
+      // Latest wins: results of superseded validation runs are dropped
+      isLatestValidationRun: ({ context, event }) =>
+        (event.type === 'FIELD_VALIDATION_SUCCESS' || event.type === 'FIELD_VALIDATION_FAILURE') &&
+        (event.run === undefined || event.run === context.validationRuns[event.field]),
+      hasNextStep: ({ context }) =>
+        findActiveStep(context.steps, context.values, context.currentStep, 1) !== undefined,
+      hasPreviousStep: ({ context }) =>
+        findActiveStep(context.steps, context.values, context.currentStep, -1) !== undefined,
+      isEarlierStep: ({ context, event }) => {
+        const target = getGotoTarget(context, event)
+        return target !== undefined && target < context.currentStep
+      },
+      // Later steps are reachable once every step in between was completed
+      isReachableStep: ({ context, event }) => {
+        const target = getGotoTarget(context, event)
+        if (target === undefined || target < context.currentStep) {
+          return false
         }
-        const errors = await validate(input.values)
-        return errors[input.field]
-      }),
+        return context.steps
+          .slice(context.currentStep + 1, target)
+          .every(
+            (step) =>
+              !isStepActive(step, context.values) || context.completedSteps.includes(step.id)
+          )
+      },
     },
     actions: {
+      // Recalculate the computed fields affected by the event's field (all of
+      // them on RESET and RESTORE_VALUES), tracking the ones overridden by the user
+      updateComputedFields: assign(({ context, event }) => {
+        const field = 'field' in event ? (event.field as string) : undefined
+        let overriddenFields = context.overriddenFields
+        if (event.type === 'RESET' || event.type === 'RESTORE_VALUES') {
+          overriddenFields = []
+        } else if (event.type === 'RESET_FIELD' && field) {
+          overriddenFields = overriddenFields.filter((path) => !isWithinPath(path, [field]))
+        } else if (
+          (event.type === 'CHANGE_FIELD' || event.type === 'SET_FIELD_VALUE') &&
+          field &&
+          computed[field as Path<T>] &&
+          !overriddenFields.includes(field)
+        ) {
+          overriddenFields = [...overriddenFields, field]
+        }
+        return {
+          values: applyComputedFields(
+            computed,
+            computedOrder,
+            context.values,
+            field === undefined ? undefined : [field],
+            overriddenFields
+          ),
+          overriddenFields,
+        }
+      }),
       updateFieldValue: assign(({ context, event }) => {
         if (event.type === 'CHANGE_FIELD' || event.type === 'SET_FIELD_VALUE') {
           return {
-            values: {
-              ...context.values,
-              [event.field]: event.value,
-            },
+            values: setIn(context.values, event.field, event.value),
           }
         }
         return {}
@@ -95,9 +559,9 @@ export function createFormMachine<T extends Record<string, unknown>>(
         return {}
       }),
       markAllFieldsTouched: assign(({ context }) => ({
-        touched: Object.keys(context.values).reduce(
-          (acc, key) => {
-            acc[key as keyof T] = true
+        touched: collectLeafPaths(context.values).reduce(
+          (acc, path) => {
+            acc[path as Path<T>] = true
             return acc
           },
           {} as TouchedFields<T>
@@ -114,61 +578,340 @@ export function createFormMachine<T extends Record<string, unknown>>(
         }
         return {}
       }),
-      setErrors: assign(({ event }) => {
+      setErrors: assign(({ context, event }) => {
         if (event.type === 'SET_ERRORS') {
           return { errors: event.errors }
-        } else if ('output' in event && event.output) {
-          return { errors: event.output as FormErrors<T> }
+        }
+        if ('output' in event && event.output) {
+          const { values, errors, notices, formError } = event.output as {
+            values: T
+            errors: FormErrors<T>
+            notices: FormNotices<T>
+            formError?: string
+          }
+          return { errors: mergeValidationErrors(context, values, errors), notices, formError }
         }
         return { errors: {} }
       }),
       setFieldValidationResult: assign(({ context, event }) => {
+        if (event.type !== 'FIELD_VALIDATION_SUCCESS' && event.type !== 'FIELD_VALIDATION_FAILURE') {
+          return {}
+        }
+        const { field } = event
+        const { [field]: _, ...validating } = context.validating
+        if (event.type === 'FIELD_VALIDATION_FAILURE') {
+          return { validating }
+        }
+        const { [field]: _notice, ...otherNotices } = context.notices
+        const notices = (
+          event.notice ? { ...context.notices, [field]: event.notice } : otherNotices
+        ) as FormNotices<T>
+        if (event.error) {
+          return {
+            validating,
+            notices,
+            errors: {
+              ...context.errors,
+              [field]: event.error,
+            },
+          }
+        }
+        const { [field]: _error, ...rest } = context.errors
+        return { validating, notices, errors: rest as FormErrors<T> }
+      }),
+      scheduleFieldValidation: enqueueActions(({ context, event, enqueue }) => {
+        if (event.type !== 'CHANGE_FIELD' || !context.validateOnChange) {
+          return
+        }
+        // Only fields the user already interacted with are validated while typing
+        if (!context.touched[event.field]) {
+          return
+        }
         if (
-          'output' in event &&
-          'input' in event &&
-          typeof event.input === 'object' &&
-          event.input &&
-          'field' in event.input
+          !canValidateField(event.field) &&
+          getDependentFields(fieldValidators, event.field).length === 0
         ) {
-          const input = event.input as { values: T; field: keyof T }
-          const field = input.field
-          const error = event.output as string | undefined
-          if (error) {
-            return {
-              errors: {
-                ...context.errors,
-                [field]: error,
-              },
-            }
+          return
+        }
+        enqueue.cancel(debounceId(event.field))
+        enqueue.raise(
+          { type: 'RUN_FIELD_VALIDATION', field: event.field },
+          {
+            id: debounceId(event.field),
+            delay: fieldDebounce[event.field] ?? debounce,
           }
-          const { [field]: _, ...rest } = context.errors
-          return { errors: rest as FormErrors<T> }
+        )
+      }),
+      cancelFieldValidation: enqueueActions(({ context, event, enqueue }) => {
+        if (!('field' in event) || !context.validating[event.field]) {
+          return
+        }
+        const { [event.field]: _, ...validating } = context.validating
+        enqueue.stopChild(validatorId(event.field))
+        enqueue.assign({ validating })
+      }),
+      startFieldValidation: enqueueActions(({ context, event, enqueue }) => {
+        if (
+          event.type !== 'BLUR_FIELD' &&
+          event.type !== 'VALIDATE_FIELD' &&
+          event.type !== 'RUN_FIELD_VALIDATION'
+        ) {
+          return
+        }
+        // Revalidate dependents the user already interacted with
+        const dependents = getDependentFields(fieldValidators, event.field).filter(
+          (field) => context.touched[field as Path<T>]
+        ) as Path<T>[]
+        const validating = { ...context.validating }
+        const validationRuns = { ...context.validationRuns }
+
+        for (const field of [event.field, ...dependents].filter(canValidateField)) {
+          const run = (validationRuns[field] ?? 0) + 1
+          validating[field] = true
+          validationRuns[field] = run
+          enqueue.cancel(debounceId(field))
+          enqueue.stopChild(validatorId(field))
+          enqueue.spawnChild('validateField', {
+            id: validatorId(field),
+            input: { values: context.values, field, run },
+          })
+        }
+        enqueue.assign({ validating, validationRuns })
+      }),
+      stopFieldValidator: enqueueActions(({ event, enqueue }) => {
+        if ('field' in event) {
+          enqueue.stopChild(validatorId(event.field))
+        }
+      }),
+      stopAllFieldValidations: enqueueActions(({ context, enqueue }) => {
+        for (const field of Object.keys(context.validating)) {
+          enqueue.stopChild(validatorId(field))
+        }
+        enqueue.assign({ validating: {} })
+      }),
+      updateFieldArray: enqueueActions(({ context, event, enqueue }) => {
+        if (!event.type.startsWith('ARRAY_')) {
+          return
+        }
+        const arrayEvent = event as FieldArrayEvent<T>
+        const current = getIn(context.values, arrayEvent.field)
+        const items = Array.isArray(current) ? current : []
+        const operation = toFieldArrayOperation(arrayEvent, items.length)
+        const keys = normalizeRowKeys(context.fieldArrayKeys[arrayEvent.field], items.length)
+        const value = 'value' in arrayEvent ? arrayEvent.value : undefined
+        const remap = <R extends Record<string, unknown>>(record: R) =>
+          remapIndexedPaths(record, arrayEvent.field, operation.mapIndex)
+
+        // Validators in flight checked the rows at their old indexes; they are
+        // restarted where the rows moved (see restartFieldArrayValidations)
+        for (const field of Object.keys(context.validating)) {
+          if (isWithinPath(field, [arrayEvent.field])) {
+            enqueue.stopChild(validatorId(field))
+          }
+        }
+        enqueue.assign({
+          values: setIn(context.values, arrayEvent.field, operation.apply(items, () => value)),
+          errors: remap(context.errors),
+          notices: remap(context.notices),
+          touched: remap(context.touched),
+          validating: remap(context.validating),
+          fieldArrayKeys: {
+            ...remap(context.fieldArrayKeys),
+            [arrayEvent.field]: operation.apply(keys, createRowKey),
+          },
+        })
+      }),
+      restartFieldArrayValidations: enqueueActions(({ context, event, enqueue }) => {
+        if (!event.type.startsWith('ARRAY_')) {
+          return
+        }
+        const arrayField = (event as FieldArrayEvent<T>).field
+        const validationRuns = { ...context.validationRuns }
+        for (const field of Object.keys(context.validating)) {
+          if (!isWithinPath(field, [arrayField])) {
+            continue
+          }
+          const run = (validationRuns[field] ?? 0) + 1
+          validationRuns[field] = run
+          enqueue.spawnChild('validateField', {
+            id: validatorId(field),
+            input: { values: context.values, field: field as Path<T>, run },
+          })
+        }
+        enqueue.assign({ validationRuns })
+      }),
+      setOutput: assign(({ event }) => {
+        if ('output' in event && event.output) {
+          return { output: (event.output as { output: unknown }).output }
         }
         return {}
       }),
-      setSubmitting: assign(() => ({
+      setSubmitting: assign(({ context }) => ({
         isSubmitting: true,
+        submitCount: context.submitCount + 1,
+        submitError: undefined,
+        submitErrorFields: [],
       })),
+      // Keep what onSubmit's failure was mapped to, revealing the field errors
+      setSubmitFailure: assign(({ context, event }) => {
+        if (event.type !== 'SUBMIT_FAILURE') {
+          return {}
+        }
+        const errors = (event.errors ?? {}) as Record<string, string>
+        const fields = Object.keys(errors)
+        const touched = { ...context.touched } as Record<string, boolean>
+        for (const field of fields) {
+          touched[field] = true
+        }
+        return {
+          errors: { ...context.errors, ...errors },
+          touched: touched as TouchedFields<T>,
+          submitError: event.message,
+          submitErrorFields: fields,
+        }
+      }),
+      // Drop submission errors of the changed field (and of fields above or below it)
+      clearSubmitFieldErrors: assign(({ context, event }) => {
+        if (!('field' in event) || context.submitErrorFields.length === 0) {
+          return {}
+        }
+        const field = event.field as string
+        const cleared = context.submitErrorFields.filter(
+          (path) => isWithinPath(path, [field]) || isWithinPath(field, [path])
+        )
+        if (cleared.length === 0) {
+          return {}
+        }
+        return {
+          errors: omitPaths(context.errors, cleared),
+          submitErrorFields: context.submitErrorFields.filter((path) => !cleared.includes(path)),
+        }
+      }),
       clearSubmitting: assign(() => ({
         isSubmitting: false,
       })),
       resetForm: assign(({ context }) => ({
         values: context.initialValues,
         errors: {},
+        notices: {},
         touched: {},
         isSubmitting: false,
+        submitCount: 0,
+        submitError: undefined,
+        submitErrorFields: [],
+        formError: undefined,
+        fieldArrayKeys: {},
+        currentStep: initialStep,
+        completedSteps: [],
+        pendingStep: undefined,
+      })),
+      // Re-evaluate conditions and drop the errors and notices of fields that got hidden
+      evaluateConditions: assign(({ context }) => {
+        const fieldConditions = evaluateFieldConditions(
+          conditions,
+          context.values,
+          context.fieldConditions
+        )
+        const hiddenFields = getHiddenFields(fieldConditions)
+        const errors = omitPaths(context.errors, hiddenFields)
+        const notices = omitPaths(context.notices, hiddenFields)
+        return {
+          fieldConditions,
+          errors: Object.keys(errors).length === Object.keys(context.errors).length
+            ? context.errors
+            : errors,
+          notices: Object.keys(notices).length === Object.keys(context.notices).length
+            ? context.notices
+            : notices,
+        }
+      }),
+      setPendingStep: assign(({ context, event }) => ({
+        pendingStep:
+          event.type === 'GOTO'
+            ? getGotoTarget(context, event)
+            : findActiveStep(context.steps, context.values, context.currentStep, 1),
+      })),
+      clearPendingStep: assign({ pendingStep: undefined }),
+      goToPreviousStep: assign(({ context }) => ({
+        currentStep:
+          findActiveStep(context.steps, context.values, context.currentStep, -1) ??
+          context.currentStep,
       })),
+      goToStep: assign(({ context, event }) => ({
+        currentStep: getGotoTarget(context, event) ?? context.currentStep,
+      })),
+      // Replace the errors of the validated step and reveal them
+      setStepErrors: assign(({ context, event }) => {
+        if (!('output' in event) || !event.output) {
+          return {}
+        }
+        const { fields, errors, notices } = event.output as {
+          fields: readonly string[]
+          errors: FormErrors<T>
+          notices: FormNotices<T>
+        }
+        const touched = { ...context.touched } as Record<string, boolean>
+        for (const field of fields) {
+          for (const path of collectLeafPaths(getIn(context.values, field), field)) {
+            touched[path] = true
+          }
+        }
+        for (const path of Object.keys(errors)) {
+          touched[path] = true
+        }
+        return {
+          errors: { ...omitPaths(context.errors, fields), ...errors },
+          notices: { ...omitPaths(context.notices, fields), ...notices },
+          touched: touched as TouchedFields<T>,
+        }
+      }),
+      completeStep: assign(({ context }) => {
+        const step = context.steps[context.currentStep]
+        return {
+          completedSteps:
+            step && !context.completedSteps.includes(step.id)
+              ? [...context.completedSteps, step.id]
+              : context.completedSteps,
+          currentStep: context.pendingStep ?? context.currentStep,
+          pendingStep: undefined,
+        }
+      }),
+      // After a failed submit, show the first step that has errors
+      goToFirstStepWithErrors: assign(({ context, event }) => {
+        if (!('output' in event) || !event.output) {
+          return {}
+        }
+        const errorPaths = Object.keys((event.output as { errors: FormErrors<T> }).errors)
+        const index = context.steps.findIndex(
+          (step) =>
+            isStepActive(step, context.values) &&
+            errorPaths.some((path) => isWithinPath(path, step.fields))
+        )
+        return index === -1 ? {} : { currentStep: index }
+      }),
+      // Replace the values (e.g. from a saved draft), keeping the initial values
+      restoreValues: assign(({ event }) => {
+        if (event.type !== 'RESTORE_VALUES') {
+          return {}
+        }
+        return {
+          values: event.values,
+          errors: {},
+          notices: {},
+          touched: {},
+          formError: undefined,
+          fieldArrayKeys: {},
+        }
+      }),
+      emitSubmitted: emit({ type: 'SUBMITTED' } as const),
       resetField: assign(({ context, event }) => {
         if (event.type === 'RESET_FIELD') {
-          const { [event.field]: _errorToRemove, ...restErrors } = context.errors
-          const { [event.field]: _touchedToRemove, ...restTouched } = context.touched
           return {
-            values: {
-              ...context.values,
-              [event.field]: context.initialValues[event.field],
-            },
-            errors: restErrors as FormErrors<T>,
-            touched: restTouched as TouchedFields<T>,
+            values: setIn(context.values, event.field, getIn(context.initialValues, event.field)),
+            errors: omitPath(context.errors, event.field),
+            notices: omitPath(context.notices, event.field),
+            touched: omitPath(context.touched, event.field),
+            fieldArrayKeys: omitPath(context.fieldArrayKeys, event.field),
           }
         }
         return {}
@@ -180,85 +923,230 @@ export function createFormMachine<T extends Record<string, unknown>>(
     context: {
       values: initialValues,
       errors: {},
+      notices: {},
       touched: {},
       isSubmitting: false,
+      submitCount: 0,
+      submitErrorFields: [],
       initialValues,
       validateOnChange,
       validateOnBlur,
+      fieldArrayKeys: {},
+      validating: {},
+      validationRuns: {},
+      output: undefined,
+      fieldConditions: evaluateFieldConditions(conditions, initialValues),
+      computed,
+      overriddenFields: [],
+      steps,
+      currentStep: initialStep,
+      completedSteps: [],
+    },
+    // Value updates and field validation are accepted in every state so that
+    // input typed while a validator is in flight is never dropped
+    on: {
+      CHANGE_FIELD: {
+        guard: 'isWritableField',
+        actions: [
+          'cancelFieldValidation',
+          'updateFieldValue',
+          'clearSubmitFieldErrors',
+          'updateComputedFields',
+          'evaluateConditions',
+          'scheduleFieldValidation',
+          'markFieldTouched',
+        ],
+      },
+      SET_FIELD_VALUE: {
+        guard: 'isWritableField',
+        actions: [
+          'cancelFieldValidation',
+          'updateFieldValue',
+          'clearSubmitFieldErrors',
+          'updateComputedFields',
+          'evaluateConditions',
+        ],
+      },
+      BLUR_FIELD: [
+        {
+          actions: ['markFieldTouched', 'startFieldValidation'],
+          guard: ({ context }) => context.validateOnBlur,
+        },
+        {
+          actions: 'markFieldTouched',
+        },
+      ],
+      VALIDATE_FIELD: {
+        actions: 'startFieldValidation',
+      },
+      RUN_FIELD_VALIDATION: {
+        actions: 'startFieldValidation',
+        guard: ({ context, event }) => !!context.touched[event.field],
+      },
+      FIELD_VALIDATION_SUCCESS: {
+        actions: ['stopFieldValidator', 'setFieldValidationResult'],
+        guard: 'isLatestValidationRun',
+      },
+      FIELD_VALIDATION_FAILURE: {
+        actions: ['stopFieldValidator', 'setFieldValidationResult'],
+        guard: 'isLatestValidationRun',
+      },
+      SET_FIELD_ERROR: {
+        actions: 'setFieldError',
+      },
+      ARRAY_APPEND: {
+        actions: [
+          'updateFieldArray',
+          'clearSubmitFieldErrors',
+          'updateComputedFields',
+          'evaluateConditions',
+          'restartFieldArrayValidations',
+        ],
+      },
+      ARRAY_INSERT: {
+        actions: [
+          'updateFieldArray',
+          'clearSubmitFieldErrors',
+          'updateComputedFields',
+          'evaluateConditions',
+          'restartFieldArrayValidations',
+        ],
+      },
+      ARRAY_REMOVE: {
+        actions: [
+          'updateFieldArray',
+          'clearSubmitFieldErrors',
+          'updateComputedFields',
+          'evaluateConditions',
+          'restartFieldArrayValidations',
+        ],
+      },
+      ARRAY_MOVE: {
+        actions: [
+          'updateFieldArray',
+          'clearSubmitFieldErrors',
+          'updateComputedFields',
+          'evaluateConditions',
+          'restartFieldArrayValidations',
+        ],
+      },
+      ARRAY_SWAP: {
+        actions: [
+          'updateFieldArray',
+          'clearSubmitFieldErrors',
+          'updateComputedFields',
+          'evaluateConditions',
+          'restartFieldArrayValidations',
+        ],
+      },
+      // Replacing values drops the form or step validation in flight: its
+      // result would describe the previous values
+      RESET: {
+        target: '.idle',
+        actions: [
+          'stopAllFieldValidations',
+          'resetForm',
+          'updateComputedFields',
+          'evaluateConditions',
+        ],
+      },
+      RESTORE_VALUES: {
+        target: '.idle',
+        actions: [
+          'stopAllFieldValidations',
+          'restoreValues',
+          'updateComputedFields',
+          'evaluateConditions',
+        ],
+      },
+      RESET_FIELD: {
+        target: '.idle',
+        actions: [
+          'cancelFieldValidation',
+          'resetField',
+          'clearSubmitFieldErrors',
+          'updateComputedFields',
+          'evaluateConditions',
+        ],
+      },
     },
     states: {
       idle: {
         on: {
-          CHANGE_FIELD: {
-            actions: ['updateFieldValue', 'markFieldTouched'],
-            target: 'validatingField',
-            guard: ({ context, event }) =>
-              context.validateOnChange && !!context.touched[event.field],
-          },
-          BLUR_FIELD: {
-            actions: 'markFieldTouched',
-            target: 'validatingField',
-            guard: ({ context }) => context.validateOnBlur,
-          },
-          SET_FIELD_VALUE: {
-            actions: 'updateFieldValue',
-          },
-          SET_FIELD_ERROR: {
-            actions: 'setFieldError',
-          },
           SET_ERRORS: {
             actions: 'setErrors',
           },
           SUBMIT: {
             target: 'submitting',
           },
-          RESET: {
-            actions: 'resetForm',
-          },
-          RESET_FIELD: {
-            actions: 'resetField',
-          },
           VALIDATE_FORM: {
             target: 'validatingForm',
           },
-          VALIDATE_FIELD: {
-            target: 'validatingField',
+          NEXT: {
+            target: 'validatingStep',
+            guard: 'hasNextStep',
+            actions: 'setPendingStep',
+          },
+          BACK: {
+            actions: 'goToPreviousStep',
+            guard: 'hasPreviousStep',
           },
+          GOTO: [
+            {
+              actions: 'goToStep',
+              guard: 'isEarlierStep',
+            },
+            {
+              target: 'validatingStep',
+              guard: 'isReachableStep',
+              actions: 'setPendingStep',
+            },
+          ],
         },
       },
-      validatingForm: {
-        invoke: {
-          src: 'validateForm',
-          input: ({ context }) => ({ values: context.values }),
-          onDone: {
-            target: 'idle',
-            actions: 'setErrors',
+      validatingStep: {
+        on: {
+          // Submitting validates the whole form, superseding the step validation
+          SUBMIT: {
+            target: 'submitting',
+            actions: 'clearPendingStep',
           },
+        },
+        invoke: {
+          src: 'validateStep',
+          input: ({ context }) => ({
+            values: context.values,
+            fields: context.steps[context.currentStep]?.fields ?? [],
+          }),
+          onDone: [
+            {
+              target: 'idle',
+              guard: ({ event }) => Object.keys(event.output.errors).length === 0,
+              actions: ['setStepErrors', 'completeStep'],
+            },
+            {
+              target: 'idle',
+              actions: ['setStepErrors', 'clearPendingStep'],
+            },
+          ],
           onError: {
             target: 'idle',
+            actions: 'clearPendingStep',
           },
         },
       },
-      validatingField: {
-        invoke: {
-          src: 'validateField',
-          input: ({ context, event }) => {
-            if ('field' in event && event.field) {
-              return {
-                values: context.values,
-                field: event.field,
-              }
-            }
-            // Default field for cases where field is not available
-            const firstKey = Object.keys(context.values)[0] as keyof T
-            return {
-              values: context.values,
-              field: firstKey,
-            }
+      validatingForm: {
+        on: {
+          SUBMIT: {
+            target: 'submitting',
           },
+        },
+        invoke: {
+          src: 'validateForm',
+          input: ({ context }) => ({ values: context.values }),
           onDone: {
             target: 'idle',
-            actions: 'setFieldValidationResult',
+            actions: 'setErrors',
           },
           onError: {
             target: 'idle',
@@ -273,12 +1161,13 @@ export function createFormMachine<T extends Record<string, unknown>>(
           onDone: [
             {
               target: 'submitValid',
-              guard: ({ event }) => Object.keys(event.output).length === 0,
-              actions: 'setErrors',
+              guard: ({ event }) =>
+                Object.keys(event.output.errors).length === 0 && !event.output.formError,
+              actions: ['setErrors', 'setOutput'],
             },
             {
               target: 'idle',
-              actions: ['setErrors', 'clearSubmitting'],
+              actions: ['setErrors', 'clearSubmitting', 'goToFirstStepWithErrors'],
             },
           ],
           onError: {
@@ -288,14 +1177,41 @@ export function createFormMachine<T extends Record<string, unknown>>(
         },
       },
       submitValid: {
+        // onSubmit is already running (and may reset the form itself): the
+        // values are replaced, and SUBMIT_SUCCESS / SUBMIT_FAILURE still settle it
         on: {
+          RESET: {
+            actions: [
+              'stopAllFieldValidations',
+              'resetForm',
+              'updateComputedFields',
+              'evaluateConditions',
+            ],
+          },
+          RESTORE_VALUES: {
+            actions: [
+              'stopAllFieldValidations',
+              'restoreValues',
+              'updateComputedFields',
+              'evaluateConditions',
+            ],
+          },
+          RESET_FIELD: {
+            actions: [
+              'cancelFieldValidation',
+              'resetField',
+              'clearSubmitFieldErrors',
+              'updateComputedFields',
+              'evaluateConditions',
+            ],
+          },
           SUBMIT_SUCCESS: {
             target: 'idle',
-            actions: 'clearSubmitting',
+            actions: ['clearSubmitting', 'emitSubmitted'],
           },
           SUBMIT_FAILURE: {
             target: 'idle',
-            actions: 'clearSubmitting',
+            actions: ['clearSubmitting', 'setSubmitFailure'],
           },
         },
       },
@@ -305,16 +1221,94 @@ export function createFormMachine<T extends Record<string, unknown>>(
 
 // Selectors
 export const getFormValues = <T>(state: { context: FormContext<T> }): T => state.context.values
+export const getFormOutput = <T>(state: { context: FormContext<T> }): unknown => state.context.output
+export const getFieldValue = <T, P extends Path<T>>(
+  state: { context: FormContext<T> },
+  field: P
+): PathValue<T, P> => getIn(state.context.values, field) as PathValue<T, P>
 export const getFormErrors = <T>(state: { context: FormContext<T> }): FormErrors<T> => state.context.errors
-export const getFieldError = <T, K extends keyof T>(state: { context: FormContext<T> }, field: K): string | undefined =>
+export const getFormNotices = <T>(state: { context: FormContext<T> }): FormNotices<T> =>
+  state.context.notices
+export const getFieldError = <T, P extends Path<T>>(state: { context: FormContext<T> }, field: P): string | undefined =>
   state.context.errors[field]
-export const isFieldTouched = <T, K extends keyof T>(
+export const isFieldTouched = <T, P extends Path<T>>(
   state: { context: FormContext<T> },
-  field: K
+  field: P
 ): boolean => state.context.touched[field] || false
+/**
+ * Errors are shown once the field was touched or a submit was attempted
+ */
+export const getVisibleFieldError = <T, P extends Path<T>>(
+  state: { context: FormContext<T> },
+  field: P
+): string | undefined =>
+  state.context.touched[field] || state.context.submitCount > 0
+    ? state.context.errors[field]
+    : undefined
+export const getFieldNotice = <T, P extends Path<T>>(
+  state: { context: FormContext<T> },
+  field: P
+): ValidationNotice | undefined => state.context.notices[field]
+/**
+ * Field notice (warning, info) once the field was touched or a submit was
+ * attempted, and only while the field has no error
+ */
+export const getVisibleFieldNotice = <T, P extends Path<T>>(
+  state: { context: FormContext<T> },
+  field: P
+): ValidationNotice | undefined =>
+  (state.context.touched[field] || state.context.submitCount > 0) && !state.context.errors[field]
+    ? state.context.notices[field]
+    : undefined
+export const isFieldValidating = <T, P extends Path<T>>(
+  state: { context: FormContext<T> },
+  field: P
+): boolean => state.context.validating[field] || false
 export const isFormSubmitting = <T>(state: { context: FormContext<T> }): boolean =>
   state.context.isSubmitting
+export const getSubmitCount = <T>(state: { context: FormContext<T> }): number =>
+  state.context.submitCount
+/**
+ * Form-level message of the last failed submission
+ */
+export const getSubmitError = <T>(state: { context: FormContext<T> }): string | undefined =>
+  state.context.submitError
+export const getFormError = <T>(state: { context: FormContext<T> }): string | undefined =>
+  state.context.formError
 export const isFormValid = <T>(state: { context: FormContext<T> }): boolean =>
-  Object.keys(state.context.errors).length === 0
+  Object.keys(state.context.errors).length === 0 && !state.context.formError
 export const isFormDirty = <T>(state: { context: FormContext<T> }): boolean =>
   JSON.stringify(state.context.values) !== JSON.stringify(state.context.initialValues)
+export const isFieldHidden = <T, P extends Path<T>>(
+  state: { context: FormContext<T> },
+  field: P
+): boolean => hasConditionState(state.context.fieldConditions, field, 'hidden')
+export const isFieldDisabled = <T, P extends Path<T>>(
+  state: { context: FormContext<T> },
+  field: P
+): boolean => hasConditionState(state.context.fieldConditions, field, 'disabled')
+/**
+ * Whether the field's requiredWhen rule currently applies
+ */
+export const isFieldConditionallyRequired = <T, P extends Path<T>>(
+  state: { context: FormContext<T> },
+  field: P
+): boolean => state.context.fieldConditions[field]?.required ?? false
+/**
+ * Whether the field is computed and rejects changes (see `ComputedField.readOnly`)
+ */
+export const isFieldReadOnly = <T, P extends Path<T>>(
+  state: { context: FormContext<T> },
+  field: P
+): boolean =>
+  isComputedReadOnly(state.context.computed, field)
+export const getFormSteps = <T>(state: { context: FormContext<T> }): FormStep<T>[] =>
+  state.context.steps
+export const getCurrentStepIndex = <T>(state: { context: FormContext<T> }): number =>
+  state.context.currentStep
+export const isStepCompleted = <T>(state: { context: FormContext<T> }, id: string): boolean =>
+  state.context.completedSteps.includes(id)
+
+// Actor types
+export type FormMachine<T extends object> = ReturnType<typeof createFormMachine<T>>
+export type FormActorRef<T extends object> = ActorRefFrom<FormMachine<T>>
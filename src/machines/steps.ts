@@ -0,0 +1,88 @@
+/**
+ * Form Steps
+ *
+ * Step definitions and pure helpers behind the form machine's NEXT, BACK and
+ * GOTO events (wizards / multi-step forms)
+ */
+
+import type { Path } from '../types/path';
+import { isWithinPath } from '../utils/path';
+
+export interface FormStep<T> {
+  /**
+   * Unique step id (e.g. for GOTO)
+   */
+  id: string;
+
+  /**
+   * Label shown by FormStepper (defaults to the id)
+   */
+  label?: string;
+
+  /**
+   * Fields of the step, validated when leaving it; a path covers every field below it
+   */
+  fields: Path<T>[];
+
+  /**
+   * Whether the step applies to the current values; skipped steps are jumped
+   * over and their fields don't block submission
+   */
+  when?(values: T): boolean;
+}
+
+export type FormStepEvent =
+  | { type: 'NEXT' }
+  | { type: 'BACK' }
+  | { type: 'GOTO'; step: string | number };
+
+/**
+ * Whether the step applies to `values` (see `FormStep.when`)
+ */
+export function isStepActive<T>(step: FormStep<T>, values: T): boolean {
+  return step.when ? step.when(values) : true;
+}
+
+/**
+ * Index of the first active step after (`direction` 1) or before (-1) `from`
+ * @returns undefined when there is none
+ */
+export function findActiveStep<T>(
+  steps: readonly FormStep<T>[],
+  values: T,
+  from: number,
+  direction: 1 | -1
+): number | undefined {
+  for (let index = from + direction; index >= 0 && index < steps.length; index += direction) {
+    const step = steps[index];
+    if (step && isStepActive(step, values)) {
+      return index;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * Index of a step given its id or index
+ * @returns -1 when there is no such step
+ */
+export function resolveStepIndex<T>(steps: readonly FormStep<T>[], step: string | number): number {
+  if (typeof step === 'number') {
+    return step >= 0 && step < steps.length ? step : -1;
+  }
+  return steps.findIndex((candidate) => candidate.id === step);
+}
+
+/**
+ * Fields of the steps that don't apply to `values`
+ */
+export function getSkippedStepFields<T>(steps: readonly FormStep<T>[], values: T): string[] {
+  const activeFields = steps
+    .filter((step) => isStepActive(step, values))
+    .flatMap((step) => step.fields as string[]);
+  // Fields shared with an active step are still validated
+  return steps
+    .filter((step) => !isStepActive(step, values))
+    .flatMap((step) => step.fields as string[])
+    .filter((field) => !isWithinPath(field, activeFields));
+}
@@ -0,0 +1,71 @@
+/**
+ * Draft Serialization
+ */
+
+import { getIn, setIn, unsetIn } from '../utils/path';
+import type { DraftOptions, FormDraft } from './types';
+
+const DEFAULT_VERSION = 1;
+
+/**
+ * Serialize the values as a draft, leaving out the excluded fields
+ */
+export function serializeDraft<T>(
+  values: T,
+  { version = DEFAULT_VERSION, exclude = [] }: Pick<DraftOptions<T>, 'version' | 'exclude'>
+): string {
+  const draft: FormDraft<T> = {
+    version,
+    savedAt: Date.now(),
+    values: exclude.reduce((result, path) => unsetIn(result, path), values),
+  };
+  return JSON.stringify(draft);
+}
+
+/**
+ * Parse a stored draft, migrating drafts saved with another version
+ * @returns undefined when the draft is malformed or can't be migrated
+ */
+export function parseDraft<T>(
+  raw: string,
+  { version = DEFAULT_VERSION, migrate }: Pick<DraftOptions<T>, 'version' | 'migrate'>
+): FormDraft<T> | undefined {
+  let draft: Partial<FormDraft<unknown>>;
+  try {
+    draft = JSON.parse(raw);
+  } catch {
+    return undefined;
+  }
+  if (
+    !draft ||
+    typeof draft !== 'object' ||
+    typeof draft.version !== 'number' ||
+    typeof draft.savedAt !== 'number' ||
+    !draft.values ||
+    typeof draft.values !== 'object'
+  ) {
+    return undefined;
+  }
+  if (draft.version === version) {
+    return draft as FormDraft<T>;
+  }
+  const values = migrate?.(draft.values, draft.version);
+  return values === undefined ? undefined : { version, savedAt: draft.savedAt, values };
+}
+
+/**
+ * Values to restore: the draft's, keeping the current value of the excluded fields
+ */
+export function mergeDraftValues<T>(
+  current: T,
+  draftValues: T,
+  exclude: readonly string[] = []
+): T {
+  return exclude.reduce(
+    (result, path) =>
+      getIn(current, path) === undefined
+        ? unsetIn(result, path)
+        : setIn(result, path, getIn(current, path)),
+    draftValues
+  );
+}
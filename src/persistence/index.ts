@@ -0,0 +1,12 @@
+/**
+ * Draft Persistence Exports
+ */
+
+export { mergeDraftValues, parseDraft, serializeDraft } from './draft';
+export {
+  type IndexedDBAdapterOptions,
+  indexedDBAdapter,
+  localStorageAdapter,
+  sessionStorageAdapter,
+} from './storage';
+export type { DraftOptions, DraftStorage, FormDraft } from './types';
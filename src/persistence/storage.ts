@@ -0,0 +1,90 @@
+/**
+ * Draft Storage Adapters
+ */
+
+import type { DraftStorage } from './types';
+
+/**
+ * Adapter over a Web Storage area, read lazily so it is safe during SSR
+ * (no storage: nothing is saved or restored)
+ */
+function webStorageAdapter(getStorage: () => Storage): DraftStorage {
+  const storage = () => (typeof window === 'undefined' ? undefined : getStorage());
+  return {
+    getItem: (key) => storage()?.getItem(key) ?? null,
+    setItem: (key, value) => storage()?.setItem(key, value),
+    removeItem: (key) => storage()?.removeItem(key),
+  };
+}
+
+/**
+ * Drafts kept across browser sessions
+ */
+export function localStorageAdapter(): DraftStorage {
+  return webStorageAdapter(() => window.localStorage);
+}
+
+/**
+ * Drafts kept until the tab is closed
+ */
+export function sessionStorageAdapter(): DraftStorage {
+  return webStorageAdapter(() => window.sessionStorage);
+}
+
+export interface IndexedDBAdapterOptions {
+  /**
+   * @default 'pleme-form-drafts'
+   */
+  database?: string;
+
+  /**
+   * Object store created with the database
+   * @default 'drafts'
+   */
+  store?: string;
+}
+
+/**
+ * Drafts kept in IndexedDB, for large forms that don't fit Web Storage quotas
+ */
+export function indexedDBAdapter({
+  database = 'pleme-form-drafts',
+  store = 'drafts',
+}: IndexedDBAdapterOptions = {}): DraftStorage {
+  let connection: Promise<IDBDatabase> | undefined;
+
+  const open = () => {
+    connection ??= new Promise((resolve, reject) => {
+      const request = indexedDB.open(database, 1);
+      request.onupgradeneeded = () => request.result.createObjectStore(store);
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+    return connection;
+  };
+
+  const run = async <R>(
+    mode: IDBTransactionMode,
+    operation: (objectStore: IDBObjectStore) => IDBRequest<R>
+  ): Promise<R> => {
+    const db = await open();
+    return new Promise((resolve, reject) => {
+      const request = operation(db.transaction(store, mode).objectStore(store));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  };
+
+  return {
+    getItem: async (key) => {
+      const value = await run('readonly', (objectStore) => objectStore.get(key));
+      return typeof value === 'string' ? value : null;
+    },
+    setItem: async (key, value) => {
+      await run('readwrite', (objectStore) => objectStore.put(value, key));
+    },
+    removeItem: async (key) => {
+      await run('readwrite', (objectStore) => objectStore.delete(key));
+    },
+  };
+}
@@ -0,0 +1,63 @@
+/**
+ * Draft Persistence Types
+ *
+ * A draft is a versioned snapshot of the form values, saved while the user
+ * fills the form so it can be restored after a refresh.
+ */
+
+import type { Path } from '../types/path';
+
+/**
+ * Key-value storage for drafts; methods may be sync (Web Storage) or async
+ * (IndexedDB, React Native AsyncStorage, a server endpoint...)
+ */
+export interface DraftStorage {
+  getItem(key: string): string | null | Promise<string | null>;
+  setItem(key: string, value: string): void | Promise<void>;
+  removeItem(key: string): void | Promise<void>;
+}
+
+export interface FormDraft<T> {
+  /**
+   * Schema version the values were saved with
+   */
+  version: number;
+
+  /**
+   * Save time (ms since epoch)
+   */
+  savedAt: number;
+
+  values: T;
+}
+
+export interface DraftOptions<T> {
+  /**
+   * Storage key of the draft
+   */
+  key: string;
+
+  /**
+   * Where drafts are kept
+   * @default localStorageAdapter()
+   */
+  storage?: DraftStorage;
+
+  /**
+   * Version of the form values; drafts saved with another version are
+   * migrated, or discarded when there is no `migrate`
+   * @default 1
+   */
+  version?: number;
+
+  /**
+   * Convert values saved with an older version; return undefined to discard the draft
+   */
+  migrate?(values: unknown, version: number): T | undefined;
+
+  /**
+   * Fields never written to storage (e.g. CPF, card numbers); a path covers
+   * every field below it
+   */
+  exclude?: Path<T>[];
+}
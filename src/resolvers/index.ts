@@ -0,0 +1,12 @@
+/**
+ * Form Resolver Exports
+ */
+
+export type { FormResolver, ResolverContext, ResolverErrors, ResolverResult } from './types';
+export {
+  getSchemaAtPath,
+  isSchemaFieldRequired,
+  issuesToErrors,
+  type SchemaIssue,
+  zodResolver,
+} from './zod';
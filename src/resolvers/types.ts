@@ -0,0 +1,32 @@
+/**
+ * Resolver Types
+ *
+ * A resolver validates the whole form and, when valid, returns the parsed
+ * (possibly transformed) values handed to onSubmit.
+ */
+
+import type { Translate } from '../i18n/types';
+import type { Path } from '../types/path';
+
+export type ResolverErrors<T> = Partial<Record<Path<T>, string>>;
+
+/**
+ * Parsed values when valid; otherwise field errors and/or a `formError` about
+ * the values as a whole (e.g. an object-level refine), which blocks submission
+ */
+export type ResolverResult<T, TOutput> =
+  | { values: TOutput; errors: ResolverErrors<T>; formError?: undefined }
+  | { values?: undefined; errors: ResolverErrors<T>; formError?: string };
+
+export interface ResolverContext {
+  signal?: AbortSignal;
+  /**
+   * Translator of the form's locale, for issues carrying a catalog code
+   */
+  translate?: Translate;
+}
+
+export type FormResolver<T, TOutput = T> = (
+  values: T,
+  context: ResolverContext
+) => ResolverResult<T, TOutput> | Promise<ResolverResult<T, TOutput>>;
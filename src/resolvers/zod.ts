@@ -0,0 +1,123 @@
+/**
+ * Zod Resolver
+ *
+ * Validate a form with a Zod schema and submit its parsed output
+ */
+
+import { z } from 'zod';
+import { isValidationError } from '../i18n/translate';
+import type { Translate } from '../i18n/types';
+import { toPathSegments } from '../utils/path';
+import type { FormResolver, ResolverErrors } from './types';
+
+/**
+ * Issues as reported by Zod (and by other libraries following the same shape)
+ */
+export interface SchemaIssue {
+  path: readonly PropertyKey[];
+  message: string;
+  /**
+   * A `{ code, params }` here (see schemaMessage) is translated instead of the message
+   */
+  params?: unknown;
+}
+
+const issueMessage = (issue: SchemaIssue, translate?: Translate): string =>
+  translate && isValidationError(issue.params) ? translate(issue.params) : issue.message;
+
+/**
+ * Map schema issues to errors keyed by dotted field path
+ *
+ * The first issue reported for a path wins; issues on the root are left out
+ * (zodResolver reports them as `formError`).
+ * Issues carrying a catalog code are translated with `translate` when given.
+ * @example
+ * issuesToErrors([{ path: ['address', 'zip'], message: 'CEP inválido' }])
+ * // { 'address.zip': 'CEP inválido' }
+ */
+export function issuesToErrors<T>(
+  issues: readonly SchemaIssue[],
+  translate?: Translate
+): ResolverErrors<T> {
+  const errors: Record<string, string> = {};
+  for (const issue of issues) {
+    const path = issue.path.map(String).join('.');
+    if (path && !(path in errors)) {
+      errors[path] = issueMessage(issue, translate);
+    }
+  }
+  return errors as ResolverErrors<T>;
+}
+
+/**
+ * Create a form resolver from a Zod schema
+ *
+ * Form values are typed as the schema input, and onSubmit receives the
+ * schema output (after transforms and defaults).
+ * @example
+ * const form = useForm({
+ *   initialValues: { email: '' },
+ *   resolver: zodResolver(z.object({ email: z.email() })),
+ * })
+ */
+export function zodResolver<S extends z.ZodType>(schema: S): FormResolver<z.input<S>, z.output<S>> {
+  return async (values, { translate } = {}) => {
+    const result = await schema.safeParseAsync(values);
+    if (result.success) {
+      return { values: result.data, errors: {} };
+    }
+    const { issues } = result.error;
+    const rootIssue = issues.find((issue) => issue.path.length === 0);
+    return {
+      errors: issuesToErrors<z.input<S>>(issues, translate),
+      formError: rootIssue && issueMessage(rootIssue, translate),
+    };
+  };
+}
+
+/**
+ * Strip wrappers (optional, nullable, default, transforms) to reach the schema that holds the shape
+ */
+const unwrapSchema = (schema: z.ZodType): z.ZodType => {
+  const def = schema._zod.def as { innerType?: z.ZodType; in?: z.ZodType };
+  const inner = def.innerType ?? def.in;
+  return inner ? unwrapSchema(inner) : schema;
+};
+
+/**
+ * Find the schema of the field at a dotted path
+ * @example
+ * getSchemaAtPath(z.object({ address: z.object({ zip: z.string() }) }), 'address.zip') // ZodString
+ */
+export function getSchemaAtPath(schema: z.ZodType, path: string): z.ZodType | undefined {
+  let current: z.ZodType | undefined = schema;
+  for (const segment of toPathSegments(path)) {
+    const node: z.ZodType | undefined = current && unwrapSchema(current);
+    if (node instanceof z.ZodObject) {
+      current = node.shape[segment] as z.ZodType | undefined;
+    } else if (node instanceof z.ZodArray) {
+      current = node.element as z.ZodType;
+    } else {
+      return undefined;
+    }
+  }
+  return current;
+}
+
+/**
+ * Read from the structure of the schema: parsing `undefined` would throw on
+ * async refinements (and runs during render)
+ */
+const acceptsUndefined = (schema: z.ZodType): boolean =>
+  schema._zod.optin === 'optional' ||
+  schema instanceof z.ZodAny ||
+  schema instanceof z.ZodUnknown ||
+  schema instanceof z.ZodCatch;
+
+/**
+ * Whether the schema rejects a missing value at a dotted path (not optional or defaulted)
+ */
+export function isSchemaFieldRequired(schema: z.ZodType, path: string): boolean {
+  const field = getSchemaAtPath(schema, path);
+  return !!field && !acceptsUndefined(field);
+}
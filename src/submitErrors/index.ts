@@ -0,0 +1,12 @@
+/**
+ * Submit Error Mapper Exports
+ */
+
+export {
+  combineErrorMappers,
+  defaultSubmitErrorMapper,
+  graphQLErrorMapper,
+  issuesErrorMapper,
+  problemDetailsMapper,
+} from './mappers';
+export type { SubmitErrorMapper, SubmitErrorMapping } from './types';
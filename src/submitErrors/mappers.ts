@@ -0,0 +1,180 @@
+/**
+ * Submit Error Mappers
+ *
+ * Built-in mappers for common backend error formats. Each one looks for the
+ * response body on the thrown value itself or on its `body`, `data` or
+ * `response.data` (fetch wrappers, axios...).
+ */
+
+import { type SchemaIssue, issuesToErrors } from '../resolvers/zod';
+import type { SubmitErrorMapper, SubmitErrorMapping } from './types';
+
+type Payload = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is Payload =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const getPayloads = (error: unknown): Payload[] => {
+  if (!isRecord(error)) {
+    return [];
+  }
+  const response = isRecord(error.response) ? error.response.data : undefined;
+  return [error, error.body, error.data, response].filter(isRecord);
+};
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' ? value : undefined;
+
+/**
+ * Dotted path of a JSON pointer (`#/address/zip` or `/address/zip`)
+ */
+const pointerToPath = (pointer: string): string =>
+  pointer
+    .replace(/^#?\//, '')
+    .split('/')
+    .map((segment) => segment.replace(/~1/g, '/').replace(/~0/g, '~'))
+    .join('.');
+
+/**
+ * Errors of a problem document, from `invalid-params` (`{ name, reason }`),
+ * an `errors` list (`{ pointer | field, detail | message }`) or an `errors`
+ * object keyed by field
+ */
+const getProblemFieldErrors = (problem: Payload): Record<string, string> => {
+  const errors: Record<string, string> = {};
+  const add = (field: string | undefined, message: string | undefined) => {
+    if (field && message && !(field in errors)) {
+      errors[field] = message;
+    }
+  };
+  const invalidParams = problem['invalid-params'];
+  if (Array.isArray(invalidParams)) {
+    for (const param of invalidParams.filter(isRecord)) {
+      add(asString(param.name), asString(param.reason));
+    }
+  }
+  if (Array.isArray(problem.errors)) {
+    for (const item of problem.errors.filter(isRecord)) {
+      const pointer = asString(item.pointer);
+      add(
+        pointer ? pointerToPath(pointer) : asString(item.field),
+        asString(item.detail) ?? asString(item.message)
+      );
+    }
+  } else if (isRecord(problem.errors)) {
+    for (const [field, messages] of Object.entries(problem.errors)) {
+      add(field, Array.isArray(messages) ? asString(messages[0]) : asString(messages));
+    }
+  }
+  return errors;
+};
+
+/**
+ * RFC 7807 / RFC 9457 problem details (`application/problem+json`)
+ * @example
+ * // { title: 'Dados inválidos', 'invalid-params': [{ name: 'email', reason: 'Já cadastrado' }] }
+ * // → { errors: { email: 'Já cadastrado' }, message: 'Dados inválidos' }
+ */
+export function problemDetailsMapper<T>(): SubmitErrorMapper<T> {
+  return (error) => {
+    const problem = getPayloads(error).find(
+      (payload) => typeof payload.title === 'string' || typeof payload.detail === 'string'
+    );
+    if (!problem) {
+      return undefined;
+    }
+    return {
+      errors: getProblemFieldErrors(problem) as SubmitErrorMapping<T>['errors'],
+      message: asString(problem.detail) ?? asString(problem.title),
+    };
+  };
+}
+
+/**
+ * GraphQL errors; errors with `extensions.field` go to that field, the first
+ * other one becomes the form-level message
+ * @example
+ * // { errors: [{ message: 'Já cadastrado', extensions: { field: 'email' } }] }
+ * // → { errors: { email: 'Já cadastrado' } }
+ */
+export function graphQLErrorMapper<T>(): SubmitErrorMapper<T> {
+  return (error) => {
+    const list = [
+      ...(Array.isArray(error) ? [error] : []),
+      // `graphQLErrors` as thrown by Apollo Client
+      ...getPayloads(error).flatMap((payload) => [payload.errors, payload.graphQLErrors]),
+    ].find(
+      (candidate): candidate is Payload[] =>
+        Array.isArray(candidate) &&
+        candidate.length > 0 &&
+        candidate.every((item) => isRecord(item) && typeof item.message === 'string')
+    );
+    if (!list) {
+      return undefined;
+    }
+    const errors: Record<string, string> = {};
+    let message: string | undefined;
+    for (const item of list) {
+      const field = isRecord(item.extensions) ? asString(item.extensions.field) : undefined;
+      if (field) {
+        errors[field] ??= item.message as string;
+      } else {
+        message ??= item.message as string;
+      }
+    }
+    return { errors: errors as SubmitErrorMapping<T>['errors'], message };
+  };
+}
+
+const isIssue = (value: unknown): value is SchemaIssue =>
+  isRecord(value) && Array.isArray(value.path) && typeof value.message === 'string';
+
+/**
+ * Zod-like issue arrays (`{ path, message }[]`, or an object with `issues`);
+ * an issue on the root becomes the form-level message
+ * @example
+ * // { issues: [{ path: ['address', 'zip'], message: 'CEP inválido' }] }
+ * // → { errors: { 'address.zip': 'CEP inválido' } }
+ */
+export function issuesErrorMapper<T>(): SubmitErrorMapper<T> {
+  return (error) => {
+    const issues = [error, ...getPayloads(error).map((payload) => payload.issues)].find(
+      (candidate): candidate is SchemaIssue[] =>
+        Array.isArray(candidate) && candidate.length > 0 && candidate.every(isIssue)
+    );
+    if (!issues) {
+      return undefined;
+    }
+    return {
+      errors: issuesToErrors<T>(issues),
+      message: issues.find((issue) => issue.path.length === 0)?.message,
+    };
+  };
+}
+
+/**
+ * Use the result of the first mapper that recognizes the error
+ */
+export function combineErrorMappers<T>(...mappers: SubmitErrorMapper<T>[]): SubmitErrorMapper<T> {
+  return (error) => {
+    for (const mapper of mappers) {
+      const mapping = mapper(error);
+      if (mapping) {
+        return mapping;
+      }
+    }
+    return undefined;
+  };
+}
+
+/**
+ * Mapper used by useForm when no `mapSubmitError` is given: problem details,
+ * then GraphQL errors, then issue arrays
+ */
+export function defaultSubmitErrorMapper<T>(error: unknown): SubmitErrorMapping<T> | undefined {
+  return combineErrorMappers<T>(
+    problemDetailsMapper(),
+    graphQLErrorMapper(),
+    issuesErrorMapper()
+  )(error);
+}
@@ -0,0 +1,25 @@
+/**
+ * Submit Error Types
+ *
+ * A submit error mapper turns what onSubmit throws (typically a backend
+ * response) into field errors and a form-level message.
+ */
+
+import type { Path } from '../types/path';
+
+export interface SubmitErrorMapping<T> {
+  /**
+   * Errors keyed by dotted field path
+   */
+  errors: Partial<Record<Path<T>, string>>;
+
+  /**
+   * Form-level message, kept as `submitError`
+   */
+  message?: string;
+}
+
+/**
+ * @returns undefined when the mapper doesn't recognize the error
+ */
+export type SubmitErrorMapper<T> = (error: unknown) => SubmitErrorMapping<T> | undefined;
@@ -0,0 +1,79 @@
+/**
+ * Path Types
+ *
+ * Type-safe dotted paths into nested form values (e.g. `'address.zip'`, `'items.3.qty'`)
+ */
+
+/**
+ * Values that are treated as leaves when building paths
+ */
+type PathLeaf = string | number | boolean | bigint | symbol | null | undefined | Date | Blob;
+
+/**
+ * Whether a type is `any` (used to stop path recursion)
+ */
+type IsAny<T> = boolean extends (T extends never ? true : false) ? true : false;
+
+/**
+ * Array index segments accepted by paths (`'0'`, `'1'`, ...)
+ */
+type ArrayKey = `${number}`;
+
+type PathImpl<K extends string | number, V> = V extends PathLeaf
+  ? `${K}`
+  : `${K}` | `${K}.${Path<V>}`;
+
+/**
+ * Every dotted path into `T`, including intermediate objects and array rows
+ *
+ * @example
+ * type P = Path<{ address: { zip: string }; items: { qty: number }[] }>
+ * // 'address' | 'address.zip' | 'items' | `items.${number}` | `items.${number}.qty`
+ */
+export type Path<T> = IsAny<T> extends true
+  ? string
+  : T extends ReadonlyArray<infer V>
+    ? PathImpl<number, V>
+    : T extends object
+      ? { [K in keyof T & string]-?: PathImpl<K, T[K]> }[keyof T & string]
+      : never;
+
+/**
+ * Type of the value found at path `P` in `T`
+ *
+ * @example
+ * type Zip = PathValue<{ address: { zip: string } }, 'address.zip'> // string
+ */
+export type PathValue<T, P extends string> = IsAny<T> extends true
+  ? unknown
+  : P extends `${infer K}.${infer Rest}`
+    ? K extends keyof T
+      ? PathValue<NonNullable<T[K]>, Rest>
+      : T extends ReadonlyArray<infer V>
+        ? K extends ArrayKey
+          ? PathValue<V, Rest>
+          : never
+        : never
+    : P extends keyof T
+      ? T[P]
+      : T extends ReadonlyArray<infer V>
+        ? P extends ArrayKey
+          ? V
+          : never
+        : never;
+
+/**
+ * Paths into `T` whose value is an array (used by field arrays)
+ */
+export type ArrayPath<T> = {
+  [P in Path<T>]: NonNullable<PathValue<T, P>> extends ReadonlyArray<unknown> ? P : never;
+}[Path<T>];
+
+/**
+ * Row type of the array found at path `P` in `T`
+ */
+export type ArrayPathItem<T, P extends string> = NonNullable<PathValue<T, P>> extends ReadonlyArray<
+  infer V
+>
+  ? V
+  : never;
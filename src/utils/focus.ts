@@ -0,0 +1,48 @@
+/**
+ * Focus Utilities
+ *
+ * Moving focus to fields and messages rendered by the form components
+ */
+
+const FOCUSABLE = 'input, select, textarea, button, [tabindex]:not([tabindex="-1"])';
+
+const prefersReducedMotion = (): boolean =>
+  typeof window.matchMedia === 'function' &&
+  window.matchMedia('(prefers-reduced-motion: reduce)').matches;
+
+/**
+ * Scroll an element into view (smoothly, unless the user prefers reduced
+ * motion) and focus it
+ */
+export function focusElement(element: HTMLElement): void {
+  element.scrollIntoView?.({
+    behavior: prefersReducedMotion() ? 'auto' : 'smooth',
+    block: 'center',
+  });
+  element.focus({ preventScroll: true });
+}
+
+/**
+ * Focus a field by its DOM id (see toFieldId)
+ *
+ * Falls back to the first control inside the element with that id, then to
+ * the first control next to the field's `${fieldId}-error` message, for
+ * fields without an input of their own (e.g. groups).
+ * @returns whether something was focused
+ */
+export function focusField(fieldId: string): boolean {
+  const field = document.getElementById(fieldId);
+  const target = field?.matches(FOCUSABLE) ? field : field?.querySelector<HTMLElement>(FOCUSABLE);
+  if (target) {
+    focusElement(target);
+    return true;
+  }
+  const message = document.getElementById(`${fieldId}-error`);
+  const container = message?.closest('fieldset, [role="group"], [role="radiogroup"]');
+  const control = (container ?? message?.parentElement)?.querySelector<HTMLElement>(FOCUSABLE);
+  if (control) {
+    focusElement(control);
+    return true;
+  }
+  return false;
+}
@@ -0,0 +1,207 @@
+/**
+ * Formatters
+ *
+ * Format and parse Brazilian documents, phones and card numbers. Formatters
+ * accept partial input (as typed) and never add trailing separators, so
+ * `parseX(formatX(value))` round-trips at every keystroke.
+ */
+
+import { cleanCNPJ } from '../validators/brazilian';
+import { FORMATTING_PATTERNS, cleanDigits } from './regex';
+
+/**
+ * Mask tokens: `9` digit, `A` letter, `*` letter or digit; anything else is a literal
+ */
+const MASK_TOKENS: Record<string, RegExp> = {
+  '9': /\d/,
+  A: /[A-Za-z]/,
+  '*': /[A-Za-z0-9]/,
+};
+
+/**
+ * Masks matching the complete shapes in FORMATTING_PATTERNS
+ */
+export const FORMAT_MASKS: {
+  readonly CEP: string;
+  readonly CPF: string;
+  readonly CNPJ: string;
+  readonly PHONE: string;
+  readonly LANDLINE: string;
+} = {
+  CEP: '99999-999',
+  CPF: '999.999.999-99',
+  CNPJ: '**.***.***/****-99',
+  PHONE: '(99) 99999-9999',
+  LANDLINE: '(99) 9999-9999',
+};
+
+/**
+ * Whether a mask character is a token (as opposed to a literal)
+ */
+export function isMaskToken(char: string): boolean {
+  return char in MASK_TOKENS;
+}
+
+/**
+ * Count the mask tokens (maximum number of raw characters)
+ */
+export function countMaskTokens(mask: string): number {
+  return mask.split('').filter(isMaskToken).length;
+}
+
+/**
+ * Extract the raw characters of `value` accepted by `mask`, in order
+ *
+ * The mask is walked along the value: literals found in place are skipped
+ * (even letters and digits, such as a country code), and a value without
+ * them (raw input) moves on to the next token.
+ * @example
+ * unmask("529.982.247-25", "999.999.999-99") // "52998224725"
+ * unmask("+55 (11) 987", "+55 (99) 99999-9999") // "11987"
+ * unmask("11987", "+55 (99) 99999-9999") // "11987"
+ */
+export function unmask(value: string, mask: string): string {
+  let raw = '';
+  let position = 0;
+  for (const char of value) {
+    if (position < mask.length && !isMaskToken(mask[position] as string)) {
+      if (char === mask[position]) {
+        position += 1;
+        continue;
+      }
+      while (position < mask.length && !isMaskToken(mask[position] as string)) {
+        position += 1;
+      }
+    }
+    const token = mask[position];
+    if (token === undefined) {
+      break;
+    }
+    if (MASK_TOKENS[token]?.test(char)) {
+      raw += char;
+      position += 1;
+    }
+  }
+  return raw;
+}
+
+/**
+ * Apply a mask to raw input; literals are only written before another raw character
+ * @example
+ * applyMask("52998", "999.999.999-99") // "529.98"
+ * applyMask("529", "999.999.999-99") // "529"
+ */
+export function applyMask(value: string, mask: string): string {
+  const raw = unmask(value, mask);
+  let result = '';
+  let rawIndex = 0;
+  let pendingLiterals = '';
+  for (const char of mask) {
+    if (rawIndex >= raw.length) {
+      break;
+    }
+    if (isMaskToken(char)) {
+      result += pendingLiterals + raw[rawIndex];
+      pendingLiterals = '';
+      rawIndex += 1;
+    } else {
+      pendingLiterals += char;
+    }
+  }
+  return result;
+}
+
+/**
+ * Format CPF progressively
+ * @example
+ * formatCPF("52998224725") // "529.982.247-25"
+ * formatCPF("5299") // "529.9"
+ */
+export function formatCPF(value: string): string {
+  const digits = parseCPF(value);
+  if (FORMATTING_PATTERNS.CPF_FORMAT.test(digits)) {
+    return digits.replace(FORMATTING_PATTERNS.CPF_FORMAT, '$1.$2.$3-$4');
+  }
+  return applyMask(digits, FORMAT_MASKS.CPF);
+}
+
+/**
+ * Parse CPF into its digits (at most 11)
+ */
+export function parseCPF(value: string): string {
+  return cleanDigits(value).slice(0, 11);
+}
+
+/**
+ * Format CNPJ progressively (numeric or alphanumeric)
+ * @example
+ * formatCNPJ("11222333000181") // "11.222.333/0001-81"
+ * formatCNPJ("12abc345") // "12.ABC.345"
+ */
+export function formatCNPJ(value: string): string {
+  return applyMask(parseCNPJ(value), FORMAT_MASKS.CNPJ);
+}
+
+/**
+ * Parse CNPJ into its uppercase characters (at most 14)
+ */
+export function parseCNPJ(value: string): string {
+  return unmask(cleanCNPJ(value), FORMAT_MASKS.CNPJ);
+}
+
+/**
+ * Format CEP progressively
+ * @example
+ * formatCEP("01310100") // "01310-100"
+ */
+export function formatCEP(value: string): string {
+  const digits = parseCEP(value);
+  if (FORMATTING_PATTERNS.CEP_FORMAT.test(digits)) {
+    return digits.replace(FORMATTING_PATTERNS.CEP_FORMAT, '$1-$2');
+  }
+  return applyMask(digits, FORMAT_MASKS.CEP);
+}
+
+/**
+ * Parse CEP into its digits (at most 8)
+ */
+export function parseCEP(value: string): string {
+  return cleanDigits(value).slice(0, 8);
+}
+
+/**
+ * Format card number in groups of four (up to 19 digits)
+ * @example
+ * formatCardNumber("4111111111111111") // "4111 1111 1111 1111"
+ */
+export function formatCardNumber(value: string): string {
+  return parseCardNumber(value).replace(FORMATTING_PATTERNS.CARD_NUMBER, '$1 ');
+}
+
+/**
+ * Parse card number into its digits (at most 19)
+ */
+export function parseCardNumber(value: string): string {
+  return cleanDigits(value).slice(0, 19);
+}
+
+/**
+ * Format Brazilian phone progressively (landline up to 10 digits, mobile with 11)
+ * @example
+ * formatPhone("11987654321") // "(11) 98765-4321"
+ * formatPhone("1134567890") // "(11) 3456-7890"
+ */
+export function formatPhone(value: string): string {
+  const digits = parsePhone(value);
+  if (FORMATTING_PATTERNS.PHONE_FORMAT.test(digits)) {
+    return digits.replace(FORMATTING_PATTERNS.PHONE_FORMAT, '($1) $2-$3');
+  }
+  return applyMask(digits, FORMAT_MASKS.LANDLINE);
+}
+
+/**
+ * Parse Brazilian phone into its digits (at most 11)
+ */
+export function parsePhone(value: string): string {
+  return cleanDigits(value).slice(0, 11);
+}
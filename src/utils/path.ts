@@ -0,0 +1,206 @@
+/**
+ * Path Utilities
+ *
+ * Immutable helpers for reading and writing nested values by dotted path
+ */
+
+const INDEX_SEGMENT = /^\d+$/;
+
+/**
+ * Split a dotted path into its segments
+ * @example
+ * toPathSegments('items.3.qty') // ['items', '3', 'qty']
+ */
+export function toPathSegments(path: string): string[] {
+  return path === '' ? [] : path.split('.');
+}
+
+/**
+ * Whether a value should be treated as a leaf (not descended into)
+ */
+export function isLeafValue(value: unknown): boolean {
+  return (
+    value === null ||
+    typeof value !== 'object' ||
+    value instanceof Date ||
+    (typeof Blob !== 'undefined' && value instanceof Blob)
+  );
+}
+
+/**
+ * Read the value at a dotted path
+ * @example
+ * getIn({ address: { zip: '01310-100' } }, 'address.zip') // '01310-100'
+ */
+export function getIn(source: unknown, path: string): unknown {
+  let current = source;
+  for (const segment of toPathSegments(path)) {
+    if (current === null || typeof current !== 'object') {
+      return undefined;
+    }
+    current = (current as Record<string, unknown>)[segment];
+  }
+  return current;
+}
+
+/**
+ * Return a copy of `source` with the value at `path` replaced
+ *
+ * Missing intermediate containers are created: arrays for numeric segments,
+ * plain objects otherwise.
+ * @example
+ * setIn({ items: [] }, 'items.0.qty', 2) // { items: [{ qty: 2 }] }
+ */
+export function setIn<S>(source: S, path: string, value: unknown): S {
+  const segments = toPathSegments(path);
+  if (segments.length === 0) {
+    return value as S;
+  }
+
+  const write = (current: unknown, index: number): unknown => {
+    const segment = segments[index] as string;
+    const container: Record<string, unknown> | unknown[] = Array.isArray(current)
+      ? [...current]
+      : current !== null && typeof current === 'object'
+        ? { ...(current as Record<string, unknown>) }
+        : INDEX_SEGMENT.test(segment)
+          ? []
+          : {};
+    const record = container as Record<string, unknown>;
+    record[segment] = index === segments.length - 1 ? value : write(record[segment], index + 1);
+    return container;
+  };
+
+  return write(source, 0) as S;
+}
+
+/**
+ * Return a copy of `source` without the value at `path`
+ * @example
+ * unsetIn({ name: 'Ana', company: { cnpj: '1' } }, 'company.cnpj') // { name: 'Ana', company: {} }
+ */
+export function unsetIn<S>(source: S, path: string): S {
+  const segments = toPathSegments(path);
+  const parentPath = segments.slice(0, -1).join('.');
+  const parent = parentPath ? getIn(source, parentPath) : source;
+  const key = segments[segments.length - 1];
+  if (key === undefined || parent === null || typeof parent !== 'object' || !(key in parent)) {
+    return source;
+  }
+  const next = Array.isArray(parent) ? [...parent] : { ...(parent as Record<string, unknown>) };
+  delete (next as Record<string, unknown>)[key];
+  return parentPath ? setIn(source, parentPath, next) : (next as S);
+}
+
+/**
+ * Return a copy of `record` without `path` and any key nested below it
+ *
+ * Used for flat, path-keyed maps such as `errors` and `touched`.
+ * @example
+ * omitPath({ address: 'x', 'address.zip': 'y', name: 'z' }, 'address') // { name: 'z' }
+ */
+export function omitPath<R extends Record<string, unknown>>(record: R, path: string): R {
+  const prefix = `${path}.`;
+  return Object.fromEntries(
+    Object.entries(record).filter(([key]) => key !== path && !key.startsWith(prefix))
+  ) as R;
+}
+
+/**
+ * Whether `path` is one of `paths` or nested below one of them
+ * @example
+ * isWithinPath('address.zip', ['address']) // true
+ */
+export function isWithinPath(path: string, paths: readonly string[]): boolean {
+  return paths.some((parent) => path === parent || path.startsWith(`${parent}.`));
+}
+
+/**
+ * Return the entries of a flat, path-keyed map at or below any of `paths`
+ * @example
+ * pickPaths({ 'address.zip': 'x', name: 'y' }, ['address']) // { 'address.zip': 'x' }
+ */
+export function pickPaths<R extends Record<string, unknown>>(
+  record: R,
+  paths: readonly string[]
+): R {
+  return Object.fromEntries(
+    Object.entries(record).filter(([key]) => isWithinPath(key, paths))
+  ) as R;
+}
+
+/**
+ * Return the entries of a flat, path-keyed map that are not at or below any of `paths`
+ * @example
+ * omitPaths({ 'address.zip': 'x', name: 'y' }, ['address']) // { name: 'y' }
+ */
+export function omitPaths<R extends Record<string, unknown>>(
+  record: R,
+  paths: readonly string[]
+): R {
+  return Object.fromEntries(
+    Object.entries(record).filter(([key]) => !isWithinPath(key, paths))
+  ) as R;
+}
+
+/**
+ * List the dotted paths of every leaf value in `source`
+ * @example
+ * collectLeafPaths({ name: '', address: { zip: '' }, tags: ['a'] })
+ * // ['name', 'address.zip', 'tags.0']
+ */
+export function collectLeafPaths(source: unknown, prefix = ''): string[] {
+  if (isLeafValue(source)) {
+    return prefix ? [prefix] : [];
+  }
+  const entries = Object.entries(source as Record<string, unknown>);
+  if (entries.length === 0) {
+    return prefix ? [prefix] : [];
+  }
+  return entries.flatMap(([key, value]) =>
+    collectLeafPaths(value, prefix ? `${prefix}.${key}` : key)
+  );
+}
+
+/**
+ * Return a copy of a flat, path-keyed map with the row indexes of `arrayPath` remapped
+ *
+ * Keys below a row whose index maps to `undefined` are dropped, which keeps
+ * errors and touched flags attached to the right row after array operations.
+ * @example
+ * remapIndexedPaths({ 'items.0.qty': 'x', 'items.1.qty': 'y' }, 'items', (i) => (i === 0 ? undefined : i - 1))
+ * // { 'items.0.qty': 'y' }
+ */
+export function remapIndexedPaths<R extends Record<string, unknown>>(
+  record: R,
+  arrayPath: string,
+  mapIndex: (index: number) => number | undefined
+): R {
+  const prefix = `${arrayPath}.`;
+  const result: Record<string, unknown> = {};
+  for (const [key, value] of Object.entries(record)) {
+    const [indexSegment = '', ...rest] = key.startsWith(prefix)
+      ? key.slice(prefix.length).split('.')
+      : [];
+    if (!INDEX_SEGMENT.test(indexSegment)) {
+      result[key] = value;
+      continue;
+    }
+    const nextIndex = mapIndex(Number(indexSegment));
+    if (nextIndex !== undefined) {
+      result[[arrayPath, String(nextIndex), ...rest].join('.')] = value;
+    }
+  }
+  return result as R;
+}
+
+/**
+ * DOM id for a field path; messages use `${id}-error`, `${id}-helper` and `${id}-success`
+ * @example
+ * toFieldId('address.zip') // 'address-zip'
+ * toFieldId('email', 'signup') // 'signup-email'
+ */
+export function toFieldId(path: string, prefix?: string): string {
+  const id = path.replace(/\./g, '-');
+  return prefix ? `${prefix}-${id}` : id;
+}
@@ -0,0 +1,148 @@
+/**
+ * Phone Metadata
+ *
+ * Offline dialing metadata for the countries we onboard, with per-country
+ * masks, validation and E.164 normalization. National numbers are handled as
+ * digits only, without the country calling code.
+ */
+
+import { applyMask } from './formatters';
+import { cleanDigits } from './regex';
+
+export type PhoneCountry = 'BR' | 'PT' | 'AR' | 'US';
+
+export interface PhoneCountryMetadata {
+  country: PhoneCountry;
+  flag: string;
+  /**
+   * Country calling code, without the leading `+`
+   */
+  dialCode: string;
+  /**
+   * Maximum length of the national number
+   */
+  maxDigits: number;
+  /**
+   * Valid national numbers (digits only)
+   */
+  pattern: RegExp;
+  placeholder: string;
+  /**
+   * Mask for the national digits typed so far (see MaskedInput)
+   */
+  mask: (digits: string) => string;
+}
+
+/**
+ * Bundled metadata, keyed by ISO 3166-1 alpha-2 code
+ */
+export const PHONE_COUNTRIES: Readonly<Record<PhoneCountry, PhoneCountryMetadata>> = {
+  BR: {
+    country: 'BR',
+    flag: '🇧🇷',
+    dialCode: '55',
+    maxDigits: 11,
+    // Area code without zeros, then mobile (9 + 8 digits) or landline (2-5 + 7 digits)
+    pattern: /^[1-9]{2}(?:9\d{8}|[2-5]\d{7})$/,
+    placeholder: '(11) 99999-9999',
+    // Landline layout until an 11th digit turns it into a mobile number
+    mask: (digits) => (digits.length > 10 ? '(99) 99999-9999' : '(99) 9999-99999'),
+  },
+  PT: {
+    country: 'PT',
+    flag: '🇵🇹',
+    dialCode: '351',
+    maxDigits: 9,
+    // Mobile (91, 92, 93, 96) or geographic/nomadic (2x, 3x)
+    pattern: /^(?:9[1236]\d{7}|[23]\d{8})$/,
+    placeholder: '912 345 678',
+    mask: () => '999 999 999',
+  },
+  AR: {
+    country: 'AR',
+    flag: '🇦🇷',
+    dialCode: '54',
+    maxDigits: 11,
+    // Area code + subscriber (10 digits); mobile numbers carry the international `9` prefix
+    pattern: /^9?[1-9]\d{9}$/,
+    placeholder: '9 11 2345-6789',
+    mask: (digits) => (digits.length > 10 ? '9 99 9999-9999' : '99 9999-99999'),
+  },
+  US: {
+    country: 'US',
+    flag: '🇺🇸',
+    dialCode: '1',
+    maxDigits: 10,
+    // NANP: area code and exchange cannot start with 0 or 1
+    pattern: /^[2-9]\d{2}[2-9]\d{6}$/,
+    placeholder: '(201) 555-0123',
+    mask: () => '(999) 999-9999',
+  },
+};
+
+/**
+ * Format a national number for display
+ * @example
+ * formatPhoneNumber("912345678", "PT") // "912 345 678"
+ */
+export function formatPhoneNumber(value: string, country: PhoneCountry = 'BR'): string {
+  const digits = cleanDigits(value);
+  return applyMask(digits, PHONE_COUNTRIES[country].mask(digits));
+}
+
+/**
+ * Validate a national number against the country's metadata
+ * @example
+ * isValidPhoneNumber("(201) 555-0123", "US") // true
+ */
+export function isValidPhoneNumber(value: string, country: PhoneCountry = 'BR'): boolean {
+  return typeof value === 'string' && PHONE_COUNTRIES[country].pattern.test(cleanDigits(value));
+}
+
+/**
+ * Normalize a national number to E.164
+ * @returns E.164 string, or an empty string when there are no digits
+ * @example
+ * toE164("(11) 98765-4321", "BR") // "+5511987654321"
+ */
+export function toE164(value: string, country: PhoneCountry = 'BR'): string {
+  const digits = cleanDigits(value);
+  return digits ? `+${PHONE_COUNTRIES[country].dialCode}${digits}` : '';
+}
+
+/**
+ * Split an E.164 number into country and national number
+ * @returns undefined when no bundled country matches the calling code
+ * @example
+ * parseE164("+351912345678") // { country: "PT", nationalNumber: "912345678" }
+ */
+export function parseE164(
+  value: string
+): { country: PhoneCountry; nationalNumber: string } | undefined {
+  const digits = cleanDigits(value);
+  // Longest calling codes first, so `+351` is not read as another prefix
+  const match = Object.values(PHONE_COUNTRIES)
+    .sort((a, b) => b.dialCode.length - a.dialCode.length)
+    .find((metadata) => digits.startsWith(metadata.dialCode));
+  if (!match) {
+    return undefined;
+  }
+  return { country: match.country, nationalNumber: digits.slice(match.dialCode.length) };
+}
+
+/**
+ * Validate an E.164 number against the bundled metadata
+ * @example
+ * isValidE164("+12015550123") // true
+ */
+export function isValidE164(value: string, countries?: readonly PhoneCountry[]): boolean {
+  if (typeof value !== 'string' || !/^\+\d{8,15}$/.test(value)) {
+    return false;
+  }
+  const parsed = parseE164(value);
+  return (
+    !!parsed &&
+    (!countries || countries.includes(parsed.country)) &&
+    isValidPhoneNumber(parsed.nationalNumber, parsed.country)
+  );
+}
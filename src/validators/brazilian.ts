@@ -0,0 +1,235 @@
+/**
+ * Brazilian Document Validation
+ *
+ * Checksum-correct validators for CPF, CNPJ (numeric and alphanumeric), CEP,
+ * PIS/PASEP/NIT and RENAVAM, as plain functions and as Zod schemas.
+ */
+
+import { z } from 'zod';
+import { schemaMessage } from '../i18n/translate';
+import type { FormMessageCode } from '../i18n/types';
+import { cleanDigits } from '../utils/regex';
+
+/**
+ * Whether every character of the value is the same (e.g. `111.111.111-11`)
+ */
+const isRepeatedSequence = (value: string): boolean => /^(.)\1*$/.test(value);
+
+/**
+ * Weighted sum of the character values of `value`
+ */
+const weightedSum = (values: readonly number[], weights: readonly number[]): number =>
+  values.reduce((sum, value, index) => sum + value * (weights[index] ?? 0), 0);
+
+/**
+ * Mod-11 check digit used by CPF, CNPJ and PIS (remainders below 2 map to 0)
+ */
+const mod11CheckDigit = (values: readonly number[], weights: readonly number[]): number => {
+  const remainder = weightedSum(values, weights) % 11;
+  return remainder < 2 ? 0 : 11 - remainder;
+};
+
+const toDigits = (value: string): number[] => value.split('').map(Number);
+
+/**
+ * Validate CPF (Cadastro de Pessoas Físicas) including check digits
+ * @param value - CPF with or without formatting
+ * @returns true if valid CPF
+ * @example
+ * isValidCPF("529.982.247-25") // true
+ * isValidCPF("111.111.111-11") // false (repeated sequence)
+ */
+export function isValidCPF(value: string): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  const cpf = cleanDigits(value);
+  if (cpf.length !== 11 || isRepeatedSequence(cpf)) {
+    return false;
+  }
+  const digits = toDigits(cpf);
+  const first = mod11CheckDigit(digits.slice(0, 9), [10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  const second = mod11CheckDigit(digits.slice(0, 10), [11, 10, 9, 8, 7, 6, 5, 4, 3, 2]);
+  return first === digits[9] && second === digits[10];
+}
+
+const CNPJ_FIRST_WEIGHTS = [5, 4, 3, 2, 9, 8, 7, 6, 5, 4, 3, 2];
+const CNPJ_SECOND_WEIGHTS = [6, ...CNPJ_FIRST_WEIGHTS];
+
+/**
+ * Normalize a CNPJ: strip formatting and uppercase letters
+ * @example
+ * cleanCNPJ("12.abc.345/01de-35") // "12ABC34501DE35"
+ */
+export function cleanCNPJ(value: string): string {
+  return value.replace(/[^0-9A-Za-z]/g, '').toUpperCase();
+}
+
+/**
+ * Validate CNPJ (Cadastro Nacional da Pessoa Jurídica) including check digits
+ *
+ * Supports the alphanumeric format introduced in 2026: the first 12 characters
+ * may be letters or digits (each valued as its ASCII code minus 48), while the
+ * two check digits remain numeric.
+ * @param value - CNPJ with or without formatting
+ * @returns true if valid CNPJ
+ * @example
+ * isValidCNPJ("11.222.333/0001-81") // true
+ * isValidCNPJ("12.ABC.345/01DE-35") // true (alphanumeric)
+ * isValidCNPJ("00.000.000/0000-00") // false
+ */
+export function isValidCNPJ(value: string): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  const cnpj = cleanCNPJ(value);
+  if (!/^[0-9A-Z]{12}\d{2}$/.test(cnpj) || isRepeatedSequence(cnpj)) {
+    return false;
+  }
+  const values = cnpj.split('').map((char) => char.charCodeAt(0) - 48);
+  const first = mod11CheckDigit(values.slice(0, 12), CNPJ_FIRST_WEIGHTS);
+  const second = mod11CheckDigit(values.slice(0, 13), CNPJ_SECOND_WEIGHTS);
+  return first === values[12] && second === values[13];
+}
+
+/**
+ * Validate CEP (Brazilian ZIP code)
+ *
+ * CEPs have no check digit; this checks the 8-digit format and rejects `00000-000`.
+ * @param value - CEP with or without dash
+ * @returns true if valid CEP
+ * @example
+ * isValidCEP("01310-100") // true
+ * isValidCEP("0131-100") // false
+ */
+export function isValidCEP(value: string): boolean {
+  if (typeof value !== 'string' || !/^\d{5}-?\d{3}$/.test(value.trim())) {
+    return false;
+  }
+  return cleanDigits(value) !== '00000000';
+}
+
+/**
+ * Validate PIS/PASEP/NIT including check digit
+ * @param value - PIS with or without formatting
+ * @returns true if valid PIS
+ * @example
+ * isValidPIS("120.12345.67-2") // true
+ * isValidPIS("120.12345.67-3") // false
+ */
+export function isValidPIS(value: string): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  const pis = cleanDigits(value);
+  if (pis.length !== 11 || isRepeatedSequence(pis)) {
+    return false;
+  }
+  const digits = toDigits(pis);
+  const remainder = 11 - (weightedSum(digits.slice(0, 10), [3, 2, 9, 8, 7, 6, 5, 4, 3, 2]) % 11);
+  const checkDigit = remainder >= 10 ? 0 : remainder;
+  return checkDigit === digits[10];
+}
+
+/**
+ * Validate RENAVAM (vehicle registry number) including check digit
+ *
+ * Legacy 9-digit numbers are left-padded with zeros to 11 digits.
+ * @param value - RENAVAM with or without formatting
+ * @returns true if valid RENAVAM
+ * @example
+ * isValidRENAVAM("00639884962") // true
+ * isValidRENAVAM("639884962") // true (legacy 9 digits)
+ */
+export function isValidRENAVAM(value: string): boolean {
+  if (typeof value !== 'string') {
+    return false;
+  }
+  const cleaned = cleanDigits(value);
+  if (cleaned.length !== 9 && cleaned.length !== 11) {
+    return false;
+  }
+  const renavam = cleaned.padStart(11, '0');
+  if (isRepeatedSequence(renavam)) {
+    return false;
+  }
+  const digits = toDigits(renavam);
+  const remainder = (weightedSum(digits.slice(0, 10), [3, 2, 9, 8, 7, 6, 5, 4, 3, 2]) * 10) % 11;
+  const checkDigit = remainder === 10 ? 0 : remainder;
+  return checkDigit === digits[10];
+}
+
+interface DocumentSchemaOptions {
+  required?: boolean;
+  requiredMessage?: string;
+  message?: string;
+}
+
+/**
+ * Schema of a document; messages default to the catalog (`{code}`, `documentRequired`)
+ */
+const createDocumentSchema = (
+  isValid: (value: string) => boolean,
+  code: FormMessageCode,
+  document: string,
+  options: DocumentSchemaOptions = {}
+): z.ZodString | z.ZodOptional<z.ZodString> => {
+  const {
+    required = true,
+    requiredMessage = schemaMessage({ code: 'documentRequired', params: { document } }),
+    message = schemaMessage({ code }),
+  } = options;
+
+  if (required) {
+    return z
+      .string()
+      .refine((value) => value.length > 0, requiredMessage)
+      .refine(isValid, message);
+  }
+  return z
+    .string()
+    .optional()
+    .refine((value) => !value || isValid(value), message);
+};
+
+/**
+ * Zod schema for CPF
+ * @example
+ * z.object({ cpf: createCPFSchema() })
+ */
+export const createCPFSchema = (
+  options?: DocumentSchemaOptions
+): z.ZodString | z.ZodOptional<z.ZodString> =>
+  createDocumentSchema(isValidCPF, 'cpf', 'CPF', options);
+
+/**
+ * Zod schema for CNPJ (numeric or alphanumeric)
+ */
+export const createCNPJSchema = (
+  options?: DocumentSchemaOptions
+): z.ZodString | z.ZodOptional<z.ZodString> =>
+  createDocumentSchema(isValidCNPJ, 'cnpj', 'CNPJ', options);
+
+/**
+ * Zod schema for CEP
+ */
+export const createCEPSchema = (
+  options?: DocumentSchemaOptions
+): z.ZodString | z.ZodOptional<z.ZodString> =>
+  createDocumentSchema(isValidCEP, 'cep', 'CEP', options);
+
+/**
+ * Zod schema for PIS/PASEP/NIT
+ */
+export const createPISSchema = (
+  options?: DocumentSchemaOptions
+): z.ZodString | z.ZodOptional<z.ZodString> =>
+  createDocumentSchema(isValidPIS, 'pis', 'PIS', options);
+
+/**
+ * Zod schema for RENAVAM
+ */
+export const createRENAVAMSchema = (
+  options?: DocumentSchemaOptions
+): z.ZodString | z.ZodOptional<z.ZodString> =>
+  createDocumentSchema(isValidRENAVAM, 'renavam', 'RENAVAM', options);
@@ -0,0 +1,94 @@
+/**
+ * Rule Combinators
+ *
+ * Build field rules out of other rules (see `validators.compose`,
+ * `validators.when`, `validators.optional` and `validators.not`). Rules may be
+ * sync or async; combined rules stay sync while their parts are.
+ */
+
+import { isValidationError } from '../i18n/translate';
+import type { ValidationError } from '../i18n/types';
+import { type FieldRule, type FieldRuleResult, requiredRule } from './registry';
+
+type MaybePromise<R> = R | Promise<R>;
+
+const isRuleError = (result: FieldRuleResult): boolean =>
+  !!result &&
+  (typeof result === 'string' || isValidationError(result) || result.severity === 'error');
+
+const isRequired = (rule: FieldRule<never, never>): boolean =>
+  (rule as { required?: boolean }).required === true;
+
+const then = <R>(
+  result: MaybePromise<R>,
+  next: (settled: R) => MaybePromise<R>
+): MaybePromise<R> => (result instanceof Promise ? result.then(next) : next(result));
+
+/**
+ * Whether a value counts as not filled in (undefined, null, '' or an empty array)
+ */
+export function isEmptyValue(value: unknown): boolean {
+  return (
+    value === undefined ||
+    value === null ||
+    value === '' ||
+    (Array.isArray(value) && value.length === 0)
+  );
+}
+
+/**
+ * Run rules in order: the first error wins, otherwise the first warning or info
+ * is returned. Required when any of the rules is
+ * @example
+ * const password = compose(validators.required(), validators.minLength(8));
+ */
+export function compose<V, T = unknown>(...rules: FieldRule<V, T>[]): FieldRule<V, T> {
+  const composed: FieldRule<V, T> = (value, values, context) => {
+    const run = (index: number, notice: FieldRuleResult): MaybePromise<FieldRuleResult> => {
+      const rule = rules[index];
+      if (!rule) {
+        return notice;
+      }
+      return then(rule(value, values, context), (result) =>
+        isRuleError(result) ? result : run(index + 1, notice || result)
+      );
+    };
+    return run(0, undefined);
+  };
+  return rules.some(isRequired) ? requiredRule(composed) : composed;
+}
+
+/**
+ * Apply a rule only while a condition on the value (and the form values) holds
+ * @example
+ * const cnpj = when((_, values: Signup) => values.type === 'company', validators.cnpj());
+ */
+export function when<V, T = unknown>(
+  condition: (value: V, values: T) => boolean,
+  rule: FieldRule<V, T>
+): FieldRule<V, T> {
+  return (value, values, context) =>
+    condition(value, values) ? rule(value, values, context) : undefined;
+}
+
+/**
+ * Apply a rule only when the field is filled in (see isEmptyValue)
+ * @example
+ * const website = optional(validators.url());
+ */
+export function optional<V, T = unknown>(rule: FieldRule<V, T>): FieldRule<V, T> {
+  return when((value) => !isEmptyValue(value), rule);
+}
+
+/**
+ * Invert a rule: report `message` when the rule passes, nothing when it fails
+ * @example
+ * const username = not(validators.oneOf(['admin', 'root']), 'Nome de usuário reservado');
+ */
+export function not<V, T = unknown>(
+  rule: FieldRule<V, T>,
+  message: string | ValidationError
+): FieldRule<V, T> {
+  return (value, values, context) =>
+    then(rule(value, values, context), (result) => (isRuleError(result) ? undefined : message));
+}
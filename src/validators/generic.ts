@@ -110,7 +110,7 @@ export function validatePrice(value: string | number): boolean {
 
   // Check decimal places (max 2)
   const parts = num.toString().split('.');
-  if (parts.length > 1 && parts[1].length > 2) {
+  if ((parts[1]?.length ?? 0) > 2) {
     return false;
   }
 
@@ -150,18 +150,16 @@ export function validatePastDate(date: string | Date): boolean {
 }
 
 /**
- * Validate age (minimum age requirement from birth date)
+ * Calculate age in whole years from birth date
  * @param birthDate - Birth date as Date object or ISO string
- * @param minAge - Minimum age required
- * @returns true if age >= minAge
+ * @returns Age in years, or undefined if the date is invalid
  * @example
- * validateAge("2000-01-01", 18) // true (if person is 18+)
- * validateAge("2010-01-01", 18) // false (person is under 18)
+ * calculateAge("2000-01-01") // 25 (during 2025, after January 1st)
  */
-export function validateAge(birthDate: string | Date, minAge: number): boolean {
+export function calculateAge(birthDate: string | Date): number | undefined {
   const birth = typeof birthDate === 'string' ? new Date(birthDate) : birthDate;
-  if (!(birth instanceof Date) || isNaN(birth.getTime())) {
-    return false;
+  if (!(birth instanceof Date) || Number.isNaN(birth.getTime())) {
+    return undefined;
   }
 
   const today = new Date();
@@ -170,10 +168,24 @@ export function validateAge(birthDate: string | Date, minAge: number): boolean {
 
   // Adjust age if birthday hasn't occurred yet this year
   if (monthDiff < 0 || (monthDiff === 0 && today.getDate() < birth.getDate())) {
-    return age - 1 >= minAge;
+    return age - 1;
   }
 
-  return age >= minAge;
+  return age;
+}
+
+/**
+ * Validate age (minimum age requirement from birth date)
+ * @param birthDate - Birth date as Date object or ISO string
+ * @param minAge - Minimum age required
+ * @returns true if age >= minAge
+ * @example
+ * validateAge("2000-01-01", 18) // true (if person is 18+)
+ * validateAge("2010-01-01", 18) // false (person is under 18)
+ */
+export function validateAge(birthDate: string | Date, minAge: number): boolean {
+  const age = calculateAge(birthDate);
+  return age !== undefined && age >= minAge;
 }
 
 /**
@@ -1,44 +1,142 @@
 /**
  * Field-level validation helpers
  *
- * These validators can be composed together to create complex validation rules.
+ * These validators can be composed together to create complex validation rules
+ * (`compose`, `when`, `optional`, `not`). Without a custom message they return
+ * structured errors (`{ code, params }`), translated with the catalog of the
+ * current locale (see FormI18nProvider).
+ *
+ * Format rules fail on empty values; wrap them in `optional` for fields that
+ * may be left blank.
  */
 
+import type { ValidationError } from '../i18n/types';
 import { cleanDigits, isValidEmail } from '../utils/regex';
+import { isValidCEP, isValidCNPJ, isValidCPF, isValidPIS, isValidRENAVAM } from './brazilian';
+import { compose, not, optional, when } from './combinators';
+import {
+  validateAge,
+  validateEnum,
+  validateFutureDate,
+  validatePastDate,
+  validatePositiveInteger,
+  validatePrice,
+  validateURL,
+} from './generic';
+import { requiredRule } from './registry';
+
+type ValidatorResult = string | ValidationError | undefined;
 
 export const validators = {
-  required:
-    (message = 'Campo obrigatório') =>
-    <T>(value: T): string | undefined =>
-      !value ? message : undefined,
+  required: (message?: string) =>
+    requiredRule(
+      <T>(value: T): ValidatorResult => (!value ? (message ?? { code: 'required' }) : undefined)
+    ),
 
   email:
-    (message = 'Email inválido') =>
-    (value: string): string | undefined =>
-      !isValidEmail(value) ? message : undefined,
+    (message?: string) =>
+    (value: string): ValidatorResult =>
+      !isValidEmail(value) ? (message ?? { code: 'email' }) : undefined,
 
-  minLength: (min: number, message?: string) => (value: string): string | undefined =>
-    value.length < min ? message || `Mínimo ${min} caracteres` : undefined,
+  minLength:
+    (min: number, message?: string) =>
+    (value: string): ValidatorResult =>
+      value.length < min ? (message ?? { code: 'minLength', params: { min } }) : undefined,
 
-  maxLength: (max: number, message?: string) => (value: string): string | undefined =>
-    value.length > max ? message || `Máximo ${max} caracteres` : undefined,
+  maxLength:
+    (max: number, message?: string) =>
+    (value: string): ValidatorResult =>
+      value.length > max ? (message ?? { code: 'maxLength', params: { max } }) : undefined,
 
   pattern:
-    (regex: RegExp, message = 'Formato inválido') =>
-    (value: string): string | undefined =>
-      !regex.test(value) ? message : undefined,
+    (regex: RegExp, message?: string) =>
+    (value: string): ValidatorResult =>
+      !regex.test(value) ? (message ?? { code: 'pattern' }) : undefined,
 
   cpf:
-    (message = 'CPF inválido') =>
-    (value: string): string | undefined => {
-      const cleaned = cleanDigits(value);
-      return cleaned.length !== 11 ? message : undefined;
-    },
+    (message?: string) =>
+    (value: string): ValidatorResult =>
+      !isValidCPF(value) ? (message ?? { code: 'cpf' }) : undefined,
+
+  cnpj:
+    (message?: string) =>
+    (value: string): ValidatorResult =>
+      !isValidCNPJ(value) ? (message ?? { code: 'cnpj' }) : undefined,
+
+  cep:
+    (message?: string) =>
+    (value: string): ValidatorResult =>
+      !isValidCEP(value) ? (message ?? { code: 'cep' }) : undefined,
+
+  pis:
+    (message?: string) =>
+    (value: string): ValidatorResult =>
+      !isValidPIS(value) ? (message ?? { code: 'pis' }) : undefined,
+
+  renavam:
+    (message?: string) =>
+    (value: string): ValidatorResult =>
+      !isValidRENAVAM(value) ? (message ?? { code: 'renavam' }) : undefined,
 
   phone:
-    (message = 'Telefone inválido') =>
-    (value: string): string | undefined => {
+    (message?: string) =>
+    (value: string): ValidatorResult => {
       const cleaned = cleanDigits(value);
-      return cleaned.length < 10 || cleaned.length > 11 ? message : undefined;
+      return cleaned.length < 10 || cleaned.length > 11
+        ? (message ?? { code: 'phone' })
+        : undefined;
     },
+
+  url:
+    (message?: string) =>
+    (value: string): ValidatorResult =>
+      !validateURL(value) ? (message ?? { code: 'url' }) : undefined,
+
+  positiveInteger:
+    (message?: string) =>
+    (value: string | number): ValidatorResult =>
+      !validatePositiveInteger(value) ? (message ?? { code: 'positiveInteger' }) : undefined,
+
+  price:
+    (message?: string) =>
+    (value: string | number): ValidatorResult =>
+      !validatePrice(value) ? (message ?? { code: 'price' }) : undefined,
+
+  futureDate:
+    (message?: string) =>
+    (value: string | Date): ValidatorResult =>
+      !validateFutureDate(value) ? (message ?? { code: 'futureDate' }) : undefined,
+
+  pastDate:
+    (message?: string) =>
+    (value: string | Date): ValidatorResult =>
+      !validatePastDate(value) ? (message ?? { code: 'pastDate' }) : undefined,
+
+  /**
+   * Minimum age from a birth date
+   */
+  minAge:
+    (min: number, message?: string) =>
+    (value: string | Date): ValidatorResult =>
+      !validateAge(value, min) ? (message ?? { code: 'minAge', params: { min } }) : undefined,
+
+  oneOf:
+    <V>(options: readonly V[], message?: string) =>
+    (value: V): ValidatorResult =>
+      !validateEnum(value, options) ? (message ?? { code: 'oneOf' }) : undefined,
+
+  /**
+   * Rule from a boolean check, such as the `validate*` functions
+   * @example
+   * validators.check((value: string) => validateMinLength(value.trim(), 3), 'Nome muito curto')
+   */
+  check:
+    <V>(isValid: (value: V) => boolean, message: string | ValidationError) =>
+    (value: V): ValidatorResult =>
+      !isValid(value) ? message : undefined,
+
+  compose,
+  when,
+  optional,
+  not,
 };
@@ -0,0 +1,276 @@
+/**
+ * Per-field Validator Registry
+ *
+ * Declare sync or async rules per field path, with optional dependencies so
+ * that changing one field revalidates the fields that depend on it.
+ */
+
+import { defaultTranslate, isValidationError } from '../i18n/translate';
+import type { Translate, ValidationError } from '../i18n/types';
+import type { Path, PathValue } from '../types/path';
+import { getIn } from '../utils/path';
+
+export interface FieldRuleContext {
+  /**
+   * Aborted when the validation is superseded by a newer one
+   */
+  signal?: AbortSignal;
+
+  /**
+   * Turns structured errors into messages of the current locale
+   * @default the pt-BR catalog
+   */
+  translate?: Translate;
+}
+
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+/**
+ * Message with a severity; only errors block submission
+ */
+export interface ValidationMessage {
+  message: string | ValidationError;
+  severity: ValidationSeverity;
+}
+
+/**
+ * A non-blocking message (warning or info), translated
+ */
+export interface ValidationNotice {
+  message: string;
+  severity: 'warning' | 'info';
+}
+
+/**
+ * An error (message or structured), a message with a severity, or undefined when valid
+ */
+export type FieldRuleResult = string | ValidationError | ValidationMessage | undefined;
+
+type ResolvedMessage = ValidationNotice | { message: string; severity: 'error' };
+
+/**
+ * A single field rule
+ *
+ * The `validators` helpers (e.g. `validators.required()`) are field rules.
+ */
+export type FieldRule<V = unknown, T = unknown> = (
+  value: V,
+  values: T,
+  context: FieldRuleContext
+) => FieldRuleResult | Promise<FieldRuleResult>;
+
+/**
+ * Outcome of the rules of one field
+ */
+export interface FieldRulesResult {
+  error?: string;
+  notice?: ValidationNotice;
+}
+
+export interface FieldValidatorConfig<V, T> {
+  rules: FieldRule<V, T> | FieldRule<V, T>[];
+  /**
+   * Fields whose changes should revalidate this one (e.g. `confirmPassword` depends on `password`)
+   */
+  deps?: Path<T>[];
+}
+
+export type FieldValidatorEntry<V, T> =
+  | FieldRule<V, T>
+  | FieldRule<V, T>[]
+  | FieldValidatorConfig<V, T>;
+
+/**
+ * Validators keyed by field path
+ *
+ * @example
+ * const fieldValidators: FieldValidators<SignUp> = {
+ *   email: [validators.required(), validators.email()],
+ *   confirmPassword: {
+ *     rules: (value, values) => (value !== values.password ? 'Senhas não conferem' : undefined),
+ *     deps: ['password'],
+ *   },
+ * };
+ */
+export type FieldValidators<T> = {
+  [P in Path<T>]?: FieldValidatorEntry<PathValue<T, P>, T>;
+};
+
+interface NormalizedEntry {
+  rules: FieldRule<unknown, unknown>[];
+  deps: string[];
+}
+
+const normalizeEntry = (entry: FieldValidatorEntry<unknown, unknown>): NormalizedEntry => {
+  if (typeof entry === 'function') {
+    return { rules: [entry], deps: [] };
+  }
+  if (Array.isArray(entry)) {
+    return { rules: entry, deps: [] };
+  }
+  return {
+    rules: Array.isArray(entry.rules) ? entry.rules : [entry.rules],
+    deps: (entry.deps ?? []) as string[],
+  };
+};
+
+const getEntry = <T>(registry: FieldValidators<T>, field: string): NormalizedEntry | undefined => {
+  const entry = (registry as Record<string, FieldValidatorEntry<unknown, unknown> | undefined>)[
+    field
+  ];
+  return entry ? normalizeEntry(entry) : undefined;
+};
+
+/**
+ * Mark a rule as making its field required (drives the required indicator)
+ * @example
+ * const required = requiredRule((value) => (!value ? 'Campo obrigatório' : undefined));
+ */
+export function requiredRule<R extends FieldRule<never, never>>(rule: R): R {
+  return Object.assign(rule, { required: true });
+}
+
+/**
+ * Translated message of a rule result with its severity (errors unless the rule says otherwise)
+ */
+export function resolveRuleResult(
+  result: FieldRuleResult,
+  translate: Translate = defaultTranslate
+): ResolvedMessage | undefined {
+  if (!result) {
+    return undefined;
+  }
+  if (typeof result === 'string' || isValidationError(result)) {
+    return { message: translate(result), severity: 'error' };
+  }
+  return { message: translate(result.message), severity: result.severity } as ResolvedMessage;
+}
+
+/**
+ * Error message of a rule result; warnings and info are not errors
+ */
+export function getRuleError(result: FieldRuleResult, translate?: Translate): string | undefined {
+  const resolved = resolveRuleResult(result, translate);
+  return resolved?.severity === 'error' ? resolved.message : undefined;
+}
+
+const withSeverity = <V, T>(
+  severity: ValidationSeverity,
+  rule: FieldRule<V, T>
+): FieldRule<V, T> => {
+  const toMessage = (result: FieldRuleResult): FieldRuleResult =>
+    typeof result === 'string' || isValidationError(result)
+      ? { message: result, severity }
+      : result;
+  return (value, values, context) => {
+    const result = rule(value, values, context);
+    return result instanceof Promise ? result.then(toMessage) : toMessage(result);
+  };
+};
+
+/**
+ * Make a rule report warnings: shown like errors, but they don't block submission
+ * @example
+ * const unusualCep = warningRule((value: string) =>
+ *   value.startsWith('00') ? 'Este CEP parece incomum' : undefined
+ * );
+ */
+export function warningRule<V, T>(rule: FieldRule<V, T>): FieldRule<V, T> {
+  return withSeverity('warning', rule);
+}
+
+/**
+ * Make a rule report informational messages, which don't block submission
+ */
+export function infoRule<V, T>(rule: FieldRule<V, T>): FieldRule<V, T> {
+  return withSeverity('info', rule);
+}
+
+/**
+ * Whether a rule registered for `field` was marked with `requiredRule`
+ */
+export function isFieldRequired<T>(registry: FieldValidators<T>, field: string): boolean {
+  return (
+    getEntry(registry, field)?.rules.some(
+      (rule) => (rule as { required?: boolean }).required === true
+    ) ?? false
+  );
+}
+
+/**
+ * Whether any rule is registered for `field`
+ */
+export function hasFieldRules<T>(registry: FieldValidators<T>, field: string): boolean {
+  return getEntry(registry, field) !== undefined;
+}
+
+/**
+ * Run the rules registered for `field` in order; the first error wins and
+ * stops the run, the first warning or info before it is kept as `notice`
+ */
+export async function runFieldRules<T>(
+  registry: FieldValidators<T>,
+  field: string,
+  value: unknown,
+  values: T,
+  context: FieldRuleContext = {}
+): Promise<FieldRulesResult> {
+  const entry = getEntry(registry, field);
+  let notice: ValidationNotice | undefined;
+  for (const rule of entry?.rules ?? []) {
+    const result = resolveRuleResult(await rule(value, values, context), context.translate);
+    if (!result) {
+      continue;
+    }
+    if (result.severity === 'error') {
+      return { error: result.message, notice };
+    }
+    notice ??= result;
+  }
+  return { notice };
+}
+
+/**
+ * Run every registered rule against `values`, returning errors and notices keyed by field path
+ */
+export async function runAllFieldRules<T>(
+  registry: FieldValidators<T>,
+  values: T,
+  context: FieldRuleContext = {}
+): Promise<{ errors: Record<string, string>; notices: Record<string, ValidationNotice> }> {
+  const fields = Object.keys(registry);
+  const results = await Promise.all(
+    fields.map((field) => runFieldRules(registry, field, getIn(values, field), values, context))
+  );
+  const errors: Record<string, string> = {};
+  const notices: Record<string, ValidationNotice> = {};
+  fields.forEach((field, index) => {
+    const { error, notice } = results[index] ?? {};
+    if (error) {
+      errors[field] = error;
+    }
+    if (notice) {
+      notices[field] = notice;
+    }
+  });
+  return { errors, notices };
+}
+
+/**
+ * Fields that (directly or transitively) declare `field` in their `deps`
+ */
+export function getDependentFields<T>(registry: FieldValidators<T>, field: string): string[] {
+  const dependents: string[] = [];
+  const queue = [field];
+  while (queue.length > 0) {
+    const current = queue.shift() as string;
+    for (const candidate of Object.keys(registry)) {
+      const entry = getEntry(registry, candidate);
+      if (candidate !== field && !dependents.includes(candidate) && entry?.deps.includes(current)) {
+        dependents.push(candidate);
+        queue.push(candidate);
+      }
+    }
+  }
+  return dependents;
+}